@@ -0,0 +1,44 @@
+import { ActionOutcome, AgentAction } from './types';
+
+/**
+ * Short description of what an action targets: `#<elementId>`, a selector or a URL.
+ * Drags read `#<from> → #<to>`.
+ */
+export function actionTarget(action: AgentAction): string {
+  const target = action.elementId !== undefined
+    ? `#${action.elementId}`
+    : action.selector || action.url || '';
+  return action.toElementId !== undefined ? `${target} → #${action.toElementId}` : target;
+}
+
+/**
+ * Renders an action as `type(target, args...)`, e.g. `input(#3, "hello")` or
+ * `keypress(#3, Enter)`, for prompts, logs and reports.
+ */
+export function describeAction(action: AgentAction): string {
+  const args = [
+    actionTarget(action),
+    action.text !== undefined ? `"${action.text}"` : '',
+    action.value !== undefined ? `"${action.value}"` : '',
+    action.key || '',
+    action.type === 'scroll' && action.elementId === undefined ? action.direction || 'down' : '',
+    action.checked === false ? 'unchecked' : '',
+    action.fileName ? `"${action.fileName}"` : ''
+  ].filter(Boolean);
+  return `${action.type}(${args.join(', ')})`;
+}
+
+/**
+ * Renders what came of an action after its description, e.g.
+ * `click(#3) → failed: Element 3 not found` or `click(#4) → ok via role, page changed`.
+ */
+export function describeActionOutcome(outcome: ActionOutcome): string {
+  if (!outcome.executed) {
+    return `${describeAction(outcome.action)} → failed: ${outcome.error || 'unknown error'}`;
+  }
+  const details = [
+    outcome.strategy ? `ok via ${outcome.strategy}` : 'ok',
+    outcome.pageChanged === true ? 'page changed' : outcome.pageChanged === false ? 'no visible change' : ''
+  ].filter(Boolean);
+  return `${describeAction(outcome.action)} → ${details.join(', ')}`;
+}
@@ -1,66 +1,91 @@
-import OpenAI from 'openai';
 import { AgentObservation, AgentAction, AgentHistory, AgentResponse } from './types';
-import { buildPrompt } from './prompt';
+import { DEFAULT_PROMPT_TOKEN_BUDGET, buildPrompt } from './prompt';
+import { actionTarget } from './action-format';
+import { ConversationMemory } from './conversation';
+import { ChatMessage, ModelProvider, ProviderOptions, createProvider, getProviderDefinition } from './providers';
 import chalk from 'chalk';
 
-export type LLMProvider = 'openai' | 'gemini';
+/**
+ * Name of a registered LLM provider, see `listProviders()`.
+ */
+export type LLMProvider = string;
+
+export interface AgentOptions extends Pick<ProviderOptions, 'baseUrl' | 'scriptPath'> {
+  /** Attach the step screenshot to each request (requires a multimodal model) */
+  vision?: boolean;
+  /** Whether screenshots carry numbered element boxes matching the prompt's element list */
+  annotatedScreenshots?: boolean;
+  /** Step prompt size limit in estimated tokens (default: the provider's, or `DEFAULT_PROMPT_TOKEN_BUDGET`) */
+  promptTokenBudget?: number;
+  /** Size limit of the earlier steps replayed to the model, in estimated tokens, before the oldest are summarised (default: half the prompt budget) */
+  memoryTokenBudget?: number;
+}
+
+const SYSTEM_MESSAGE = 'You are a UI testing agent. Always respond with valid JSON only, no markdown formatting.';
 
 export class BugReproductionAgent {
-  private client: OpenAI;
-  private model: string;
-  private provider: LLMProvider;
+  private provider: ModelProvider;
   private verbose: boolean;
-
-  constructor(apiKey?: string, provider: LLMProvider = 'gemini', model?: string, verbose: boolean = false) {
-    this.provider = provider;
+  private options: AgentOptions;
+  private tokenBudget: number;
+  private memory: ConversationMemory;
+
+  constructor(
+    apiKey?: string,
+    provider: LLMProvider | ModelProvider = 'gemini',
+    model?: string,
+    verbose: boolean = false,
+    options: AgentOptions = {}
+  ) {
     this.verbose = verbose;
-    
-    // Set default model based on provider
-    if (!model) {
-      this.model = provider === 'gemini' ? 'gemini-2.0-flash-thinking-exp-01-21' : 'gpt-4-turbo-preview';
-    } else {
-      this.model = model;
-    }
-
-    // Get API key from parameter, provider-specific env var, or fallback
-    const key = apiKey || 
-      (provider === 'gemini' ? process.env.GEMINI_API_KEY : process.env.OPENAI_API_KEY) ||
-      process.env.GEMINI_API_KEY || 
-      process.env.OPENAI_API_KEY;
-
-    if (!key) {
-      throw new Error(`API key required. Set ${provider === 'gemini' ? 'GEMINI_API_KEY' : 'OPENAI_API_KEY'} environment variable or pass as parameter.`);
-    }
-
-    // Configure client based on provider
-    if (provider === 'gemini') {
-      this.client = new OpenAI({
-        apiKey: key,
-        baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/'
-      });
-    } else {
-      this.client = new OpenAI({
-        apiKey: key
-      });
-    }
+    this.options = options;
+    this.provider = typeof provider === 'string'
+      ? createProvider(provider, { baseUrl: options.baseUrl, scriptPath: options.scriptPath, apiKey, model })
+      : provider;
+    this.tokenBudget = options.promptTokenBudget
+      ?? (typeof provider === 'string' ? getProviderDefinition(provider)?.promptTokenBudget : undefined)
+      ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+    this.memory = new ConversationMemory(options.memoryTokenBudget ?? Math.round(this.tokenBudget / 2));
   }
 
+  /**
+   * Asks the model for the next action. The request carries the conversation so
+   * far (earlier thoughts, actions and their outcomes) followed by the step's
+   * prompt, and the reply is added to it. Model or parsing errors fall back to a
+   * click on the first clickable element; an aborted `signal` rejects instead.
+   */
   async decideNextAction(
     bugDescription: string,
     observation: AgentObservation,
-    history: AgentHistory
+    history: AgentHistory,
+    signal?: AbortSignal
   ): Promise<AgentResponse> {
-    const prompt = buildPrompt(bugDescription, observation, history);
+    const attachScreenshot = !!this.options.vision && !!observation.screenshot;
+    const { text: prompt, tokens, dropped } = buildPrompt(bugDescription, observation, history, {
+      screenshot: attachScreenshot ? (this.options.annotatedScreenshots ? 'annotated' : 'plain') : undefined,
+      tokenBudget: this.tokenBudget
+    });
+
+    const summarized = this.memory.summarize();
 
     if (this.verbose) {
       console.log(chalk.gray('\n' + '='.repeat(80)));
       console.log(chalk.cyan.bold('🧠 LLM REQUEST'));
       console.log(chalk.gray('='.repeat(80)));
-      console.log(chalk.yellow(`Model: ${this.model} (${this.provider})`));
+      console.log(chalk.yellow(`Model: ${this.provider.model} (${this.provider.name})`));
       console.log(chalk.yellow(`Step: ${observation.stepNumber}`));
       console.log(chalk.yellow(`URL: ${observation.state.url}`));
       console.log(chalk.yellow(`Clickable Elements: ${observation.dom.filter(e => e.clickable).length}`));
       console.log(chalk.yellow(`Previous Actions: ${history.actions.length}`));
+      console.log(chalk.yellow(`Screenshot Attached: ${attachScreenshot ? 'yes' : 'no'}`));
+      console.log(chalk.yellow(`Prompt Size: ~${tokens} tokens (budget ${this.tokenBudget})`));
+      console.log(chalk.yellow(`Conversation: ${this.memory.length} earlier steps, ~${this.memory.tokens()} tokens`));
+      if (summarized) {
+        console.log(chalk.yellow(`Summarised Steps: ${summarized.steps.join(', ')}`));
+      }
+      if (dropped.length > 0) {
+        console.log(chalk.yellow(`Left Out To Fit: ${dropped.join(', ')}`));
+      }
       console.log(chalk.gray('\n--- PROMPT SENT TO LLM ---'));
       console.log(chalk.white(prompt.substring(0, 1000) + (prompt.length > 1000 ? '...' : '')));
       if (prompt.length > 1000) {
@@ -69,28 +94,16 @@ export class BugReproductionAgent {
       console.log(chalk.gray('='.repeat(80)));
     }
 
+    let response: AgentResponse;
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a UI testing agent. Always respond with valid JSON only, no markdown formatting.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+      const content = await this.provider.complete({
+        // Screenshots of earlier steps aren't replayed, only the current one
+        messages: this.memory.messages(SYSTEM_MESSAGE, this.userMessage(prompt, attachScreenshot ? observation.screenshot : undefined)),
         temperature: 0.3,
-        response_format: { type: 'json_object' }
+        json: true,
+        signal
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from LLM');
-      }
-
       if (this.verbose) {
         console.log(chalk.gray('\n--- RAW LLM RESPONSE ---'));
         console.log(chalk.white(content));
@@ -116,6 +129,17 @@ export class BugReproductionAgent {
         throw new Error('Invalid response: missing action');
       }
 
+      // Models sometimes quote element ids and booleans
+      if (parsed.action.elementId !== undefined && parsed.action.elementId !== null) {
+        parsed.action.elementId = Number(parsed.action.elementId);
+      }
+      if (parsed.action.toElementId !== undefined && parsed.action.toElementId !== null) {
+        parsed.action.toElementId = Number(parsed.action.toElementId);
+      }
+      if (typeof parsed.action.checked === 'string') {
+        parsed.action.checked = parsed.action.checked !== 'false';
+      }
+
       // Set default status if not provided
       if (!parsed.status) {
         parsed.status = 'in_progress';
@@ -126,7 +150,7 @@ export class BugReproductionAgent {
         console.log(chalk.gray('='.repeat(80)));
         console.log(chalk.cyan(`Thought: ${parsed.thought}`));
         console.log(chalk.blue(`Action Type: ${parsed.action.type}`));
-        console.log(chalk.blue(`Selector: ${parsed.action.selector}`));
+        console.log(chalk.blue(`Target: ${actionTarget(parsed.action)}${parsed.action.target ? ` (${parsed.action.target})` : ''}`));
         if (parsed.action.text) {
           console.log(chalk.blue(`Text: ${parsed.action.text}`));
         }
@@ -139,19 +163,37 @@ export class BugReproductionAgent {
         console.log(chalk.gray('='.repeat(80) + '\n'));
       }
 
-      return parsed;
+      response = parsed;
     } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
+      }
       // Fallback response on error
-      return {
+      response = {
         thought: `Error occurred: ${error.message}. Will try a simple click action.`,
         action: {
           type: 'click',
-          selector: observation.dom.find(el => el.clickable)?.selector || 'body',
+          elementId: observation.dom.find(el => el.clickable)?.id,
           target: 'First clickable element'
         },
         status: 'in_progress'
       };
     }
+    this.memory.record(observation, response);
+    return response;
+  }
+
+  private userMessage(prompt: string, screenshot?: string): ChatMessage {
+    if (!screenshot) {
+      return { role: 'user', content: prompt };
+    }
+    return {
+      role: 'user',
+      content: [
+        { type: 'text', text: prompt },
+        { type: 'image', data: screenshot, mediaType: 'image/png' }
+      ]
+    };
   }
 
   async checkIfReproduced(
@@ -0,0 +1,175 @@
+import { DOMDiff } from '@bugbot/runner';
+import { AgentAction, AgentObservation, AgentResponse } from './types';
+import { describeAction } from './action-format';
+import { describePageChanges } from './page-changes';
+import { estimateTokens } from './prompt';
+import { ChatMessage } from './providers';
+
+/** Most recent turns always kept word for word, however long they are */
+const MIN_KEPT_TURNS = 2;
+const MAX_OUTCOME_CHANGES = 5;
+const MAX_SUMMARY_THOUGHT_LENGTH = 120;
+
+interface ActionOutcome {
+  error?: string;
+  changes?: DOMDiff;
+}
+
+interface Turn {
+  stepNumber: number;
+  url: string;
+  title: string;
+  /** What the previous turn's action did, as seen at the start of this one; unset for the first turn */
+  previousOutcome?: ActionOutcome;
+  /** The model's reply, re-serialized as JSON */
+  reply: string;
+  response: AgentResponse;
+}
+
+export interface SummarizeResult {
+  /** Steps folded into the summary */
+  steps: number[];
+  /** Estimated size of the earlier turns after summarising */
+  tokens: number;
+}
+
+/**
+ * The agent's running conversation within a run: what it thought and did at each
+ * step and what came of it, so the model can learn from its own earlier attempts
+ * (e.g. that an id could not be clicked) instead of starting over every step.
+ *
+ * Only the current step carries the full page state; earlier steps are replayed
+ * as a short note of the page, the model's reply and the outcome of its action.
+ * Once those exceed the token budget, the oldest turns are folded into a
+ * one-line-per-step summary.
+ */
+export class ConversationMemory {
+  private turns: Turn[] = [];
+  private summary: string[] = [];
+  /** Summary lines dropped because the summary alone outgrew the budget */
+  private omitted = 0;
+
+  constructor(private tokenBudget: number) {}
+
+  /**
+   * Messages to send for the current step: the system message, earlier turns
+   * and the step's own prompt, which should carry the full page state.
+   */
+  messages(system: string, prompt: ChatMessage): ChatMessage[] {
+    const messages: ChatMessage[] = [{ role: 'system', content: system }];
+    if (this.summary.length > 0) {
+      messages.push(
+        { role: 'user', content: `Earlier in this run (summarised):\n${this.summaryText()}` },
+        { role: 'assistant', content: 'Noted.' }
+      );
+    }
+    for (const turn of this.turns) {
+      messages.push(
+        { role: 'user', content: turnPrompt(turn) },
+        { role: 'assistant', content: turn.reply }
+      );
+    }
+    // The prompt reports how the last turn's action went itself
+    messages.push(prompt);
+    return messages;
+  }
+
+  /**
+   * Records the model's reply for a step, along with the outcome of the
+   * previous step's action as seen in this step's observation.
+   */
+  record(observation: AgentObservation, response: AgentResponse): void {
+    this.turns.push({
+      stepNumber: observation.stepNumber,
+      url: observation.state.url,
+      title: observation.state.title,
+      previousOutcome: this.length > 0 ? { error: observation.actionError, changes: observation.changes } : undefined,
+      reply: JSON.stringify(response),
+      response
+    });
+  }
+
+  /**
+   * Folds the oldest turns into the summary until the rest fit the budget,
+   * keeping at least the last `MIN_KEPT_TURNS`. Returns what was folded, or
+   * undefined when everything already fits.
+   */
+  summarize(): SummarizeResult | undefined {
+    const folded: number[] = [];
+    while (this.turns.length > MIN_KEPT_TURNS && this.tokens() > this.tokenBudget) {
+      const turn = this.turns.shift()!;
+      // The outcome of a turn's action is only known from the turn after it
+      const outcome = this.turns[0].previousOutcome;
+      this.summary.push(summaryLine(turn, outcome));
+      folded.push(turn.stepNumber);
+    }
+    // A very long run can outgrow the budget with the summary alone
+    while (this.summary.length > 1 && this.tokens() > this.tokenBudget) {
+      this.summary.shift();
+      this.omitted++;
+    }
+    return folded.length > 0 ? { steps: folded, tokens: this.tokens() } : undefined;
+  }
+
+  /** Estimated size of everything before the current step's prompt */
+  tokens(): number {
+    return estimateTokens(this.summaryText())
+      + this.turns.reduce((total, turn) => total + estimateTokens(turnPrompt(turn)) + estimateTokens(turn.reply), 0);
+  }
+
+  /** Number of steps recorded so far */
+  get length(): number {
+    return this.omitted + this.summary.length + this.turns.length;
+  }
+
+  private summaryText(): string {
+    const omitted = this.omitted > 0 ? [`(${this.omitted} earlier steps left out)`] : [];
+    return [...omitted, ...this.summary].join('\n');
+  }
+}
+
+function turnPrompt(turn: Turn): string {
+  const outcome = turn.previousOutcome ? `Result of your previous action: ${describeOutcome(turn.previousOutcome)}\n\n` : '';
+  return `${outcome}Step ${turn.stepNumber} on ${turn.url} ("${turn.title}"). (Full page state left out; it was shown at the time.)`;
+}
+
+/**
+ * What came of an action: the runner's error if it failed, otherwise what
+ * changed on the page. `brief` gives a single line for the summary.
+ */
+function describeOutcome(outcome: ActionOutcome, brief = false): string {
+  if (outcome.error) {
+    return `FAILED - ${brief ? outcome.error.split('\n')[0] : outcome.error}`;
+  }
+  if (!outcome.changes) {
+    return 'ran';
+  }
+  const lines = describePageChanges(outcome.changes, MAX_OUTCOME_CHANGES);
+  if (lines.length === 0) {
+    return 'ran, nothing on the page changed';
+  }
+  if (brief) {
+    const { url, added, removed, changed } = outcome.changes;
+    const counts = [
+      url ? `navigated to ${url.to}` : '',
+      added.length ? `${added.length} added` : '',
+      removed.length ? `${removed.length} removed` : '',
+      changed.length ? `${changed.length} changed` : ''
+    ].filter(Boolean);
+    return `ran, page changed (${counts.join(', ') || 'title'})`;
+  }
+  return `ran, page changed:\n${lines.join('\n')}`;
+}
+
+function summaryLine(turn: Turn, outcome: ActionOutcome | undefined): string {
+  const { thought, action } = turn.response;
+  const shortThought = thought && thought.length > MAX_SUMMARY_THOUGHT_LENGTH
+    ? `${thought.substring(0, MAX_SUMMARY_THOUGHT_LENGTH)}...`
+    : thought;
+  const result = outcome ? ` → ${describeOutcome(outcome, true)}` : '';
+  return `- Step ${turn.stepNumber} (${turn.url}): ${describeTarget(action)}${result}${shortThought ? ` | thought: ${shortThought}` : ''}`;
+}
+
+function describeTarget(action: AgentAction): string {
+  return action.target ? `${describeAction(action)} on '${action.target}'` : describeAction(action);
+}
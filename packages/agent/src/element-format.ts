@@ -0,0 +1,44 @@
+import { DOMElement, ElementStates } from '@bugbot/runner';
+
+/**
+ * Renders an element for prompts as `[id] name (role, details...)`, e.g.
+ * `[7] Email (textbox, value "a@b.c", required)` or `[9] Cart 3 (text)`.
+ */
+export function describeElement(el: DOMElement): string {
+  const details = [
+    el.role || el.tagName,
+    el.clickable ? 'clickable' : '',
+    el.value !== undefined ? `value "${el.value}"` : '',
+    el.placeholder ? `placeholder "${el.placeholder}"` : '',
+    describeStates(el.states),
+    el.frame ? 'in iframe' : ''
+  ].filter(Boolean);
+  const label = el.name || el.text || '(no text)';
+  const text = el.text && el.name && el.text !== el.name ? ` "${el.text}"` : '';
+  const description = el.description ? ` - ${el.description}` : '';
+  return `[${el.id}] ${label}${text} (${details.join(', ')})${description}`;
+}
+
+/**
+ * Lists the states that apply, e.g. `checked, required`. Unset states are left
+ * out; `checked`, `pressed` and `expanded` read `unchecked`, `not pressed` and
+ * `collapsed` when false.
+ */
+export function describeStates(states?: ElementStates): string {
+  if (!states) {
+    return '';
+  }
+  const flag = (value: boolean | 'mixed' | undefined, on: string, off: string) =>
+    value === 'mixed' ? `${on} (mixed)` : value === true ? on : value === false ? off : '';
+  return [
+    flag(states.disabled, 'disabled', ''),
+    flag(states.checked, 'checked', 'unchecked'),
+    flag(states.pressed, 'pressed', 'not pressed'),
+    flag(states.expanded, 'expanded', 'collapsed'),
+    flag(states.selected, 'selected', ''),
+    flag(states.required, 'required', ''),
+    flag(states.readonly, 'read-only', ''),
+    flag(states.focused, 'focused', ''),
+    flag(states.invalid, 'invalid', '')
+  ].filter(Boolean).join(', ');
+}
@@ -0,0 +1,79 @@
+import { DOMElement } from '@bugbot/runner';
+
+/** Viewport of the runner's browser context, for states that don't report one */
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'when', 'then', 'that', 'this', 'from', 'into', 'onto', 'after',
+  'before', 'does', 'not', 'doesn', 'don', 'isn', 'should', 'would', 'can', 'cannot', 'but',
+  'are', 'was', 'were', 'has', 'have', 'had', 'its', 'it', 'you', 'user', 'users', 'page',
+  'click', 'clicking', 'clicked', 'nothing', 'happens', 'bug', 'there', 'what', 'which', 'any'
+]);
+
+/**
+ * Words of a bug description worth looking for in element labels: lowercased,
+ * at least three characters, without common words.
+ */
+export function bugKeywords(bugDescription: string): string[] {
+  const words = bugDescription.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return [...new Set(words.filter(word => word.length >= 3 && !STOP_WORDS.has(word)))];
+}
+
+/**
+ * Scores how likely an element is to matter for the bug. Matching keywords count
+ * the most (exact, prefix or one-typo matches against name, text, value,
+ * placeholder and test id), then being a control, being in the viewport and
+ * being near the top of the page. Hidden, zero-size and disabled elements lose points.
+ */
+export function relevanceScore(
+  el: DOMElement,
+  keywords: string[],
+  viewport: { width: number; height: number } = DEFAULT_VIEWPORT
+): number {
+  const label = [el.name, el.text, el.value, el.placeholder, el.description, el.testId]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  const words = label.match(/[\p{L}\p{N}]+/gu) || [];
+  const matches = keywords.filter(keyword => words.some(word => fuzzyMatch(word, keyword))).length;
+
+  let score = Math.min(matches * 15, 50);
+  score += el.interactive ? 20 : 0;
+
+  const box = el.boundingBox;
+  if (!box || box.width === 0 || box.height === 0) {
+    score -= 10;
+  } else {
+    const inViewport = box.y + box.height > 0 && box.y < viewport.height && box.x + box.width > 0 && box.x < viewport.width;
+    score += inViewport ? 10 : 0;
+    // Slightly prefer what's near the top, within three screens
+    const depth = Math.min(Math.max(box.y, 0), viewport.height * 3) / (viewport.height * 3);
+    score += 5 * (1 - depth);
+  }
+  if (el.states?.disabled) {
+    score -= 5;
+  }
+  return score;
+}
+
+function fuzzyMatch(word: string, keyword: string): boolean {
+  if (word === keyword) return true;
+  if (Math.min(word.length, keyword.length) >= 4 && (word.startsWith(keyword) || keyword.startsWith(word))) return true;
+  return keyword.length >= 5 && Math.abs(word.length - keyword.length) <= 1 && editDistance(word, keyword) <= 1;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
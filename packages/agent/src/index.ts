@@ -1,4 +1,12 @@
-export { BugReproductionAgent, LLMProvider } from './agent';
+export { BugReproductionAgent, LLMProvider, AgentOptions } from './agent';
 export * from './types';
-export { buildPrompt } from './prompt';
-
+export { buildPrompt, estimateTokens, BuiltPrompt, PromptOptions, DEFAULT_PROMPT_TOKEN_BUDGET } from './prompt';
+export { ConversationMemory, SummarizeResult } from './conversation';
+export { bugKeywords, relevanceScore } from './element-ranking';
+export { actionTarget, describeAction, describeActionOutcome } from './action-format';
+export { describeElement, describeStates } from './element-format';
+export { newNetworkEntries, describeNetworkActivity, describeFailedRequests, jsonShape } from './network-summary';
+export { describePageChanges } from './page-changes';
+export { BugVerifier, VerifierOptions, MIN_VERIFIED_CONFIDENCE } from './verifier';
+export { buildVerificationPrompt } from './verification-prompt';
+export * from './providers';
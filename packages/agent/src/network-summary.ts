@@ -0,0 +1,117 @@
+import { NetworkEntry } from '@bugbot/runner';
+import { AgentObservation, AgentHistory } from './types';
+
+/** Resource types worth showing the model; scripts, styles, images and fonts are noise */
+const API_RESOURCE_TYPES = new Set(['document', 'xhr', 'fetch']);
+const MAX_LISTED_REQUESTS = 10;
+const MAX_SHAPE_LENGTH = 300;
+const MAX_SHAPE_DEPTH = 3;
+
+/**
+ * Requests made since the previous observation. Entries are told apart by their
+ * runner-assigned id, so the result doesn't depend on how many entries the runner
+ * keeps in its state.
+ */
+export function newNetworkEntries(current: AgentObservation, history: AgentHistory): NetworkEntry[] {
+  const previous = [...history.observations]
+    .reverse()
+    .find(obs => obs.stepNumber < current.stepNumber);
+  if (!previous) {
+    return current.state.networkEntries;
+  }
+  const lastSeenId = Math.max(0, ...previous.state.networkEntries.map(entry => entry.id));
+  return current.state.networkEntries.filter(entry => entry.id > lastSeenId);
+}
+
+/**
+ * Summarises new requests, one line each: document and API calls with their
+ * status and the shape of JSON responses, plus any other request that failed.
+ */
+export function describeNetworkActivity(entries: NetworkEntry[], pageUrl: string): string {
+  const relevant = entries.filter(entry =>
+    API_RESOURCE_TYPES.has(entry.resourceType || '') || isFailed(entry)
+  );
+  const listed = relevant.slice(-MAX_LISTED_REQUESTS).map(entry => {
+    const shape = entry.responseBody && entry.mimeType?.includes('json')
+      ? jsonShape(entry.responseBody.text)
+      : undefined;
+    return `- ${describeRequest(entry, pageUrl)}${shape ? `\n  Response: ${shape}` : ''}`;
+  });
+  const hidden = relevant.length - listed.length;
+  return [...(hidden > 0 ? [`(${hidden} earlier requests omitted)`] : []), ...listed].join('\n');
+}
+
+/**
+ * Lists requests answered with a 4xx/5xx status or that got no response at all.
+ */
+export function describeFailedRequests(entries: NetworkEntry[], pageUrl: string): string {
+  return entries
+    .filter(isFailed)
+    .slice(-MAX_LISTED_REQUESTS)
+    .map(entry => {
+      const body = entry.responseBody?.text.trim().replace(/\s+/g, ' ');
+      return `- ${describeRequest(entry, pageUrl)}${body ? `\n  Body: ${truncate(body, 200)}` : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Renders the structure of a JSON document with the values replaced by their
+ * types, e.g. `{id: number, tags: [string] (3 items)}`. Arrays show their first
+ * item only. Returns undefined when the text isn't valid JSON.
+ */
+export function jsonShape(text: string): string | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  return truncate(shapeOf(value, 0), MAX_SHAPE_LENGTH);
+}
+
+function shapeOf(value: unknown, depth: number): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const item = depth >= MAX_SHAPE_DEPTH ? '...' : shapeOf(value[0], depth + 1);
+    return `[${item}] (${value.length} ${value.length === 1 ? 'item' : 'items'})`;
+  }
+  if (typeof value === 'object') {
+    const keys = Object.keys(value as object);
+    if (keys.length === 0) return '{}';
+    if (depth >= MAX_SHAPE_DEPTH) return '{...}';
+    const fields = keys.map(key => `${key}: ${shapeOf((value as Record<string, unknown>)[key], depth + 1)}`);
+    return `{${fields.join(', ')}}`;
+  }
+  return typeof value;
+}
+
+function describeRequest(entry: NetworkEntry, pageUrl: string): string {
+  const outcome = entry.failure
+    ? `failed (${entry.failure})`
+    : entry.status
+    ? `${entry.status}${entry.statusText ? ` ${entry.statusText}` : ''}`
+    : 'pending';
+  return `${entry.method} ${relativeUrl(entry.url, pageUrl)} → ${outcome}`;
+}
+
+function isFailed(entry: NetworkEntry): boolean {
+  return !!entry.failure || (entry.status !== undefined && entry.status >= 400);
+}
+
+/** Drops the origin of same-origin URLs to keep the prompt short */
+function relativeUrl(url: string, pageUrl: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === new URL(pageUrl).origin
+      ? `${parsed.pathname}${parsed.search}`
+      : url;
+  } catch {
+    return url;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max)}...` : text;
+}
@@ -0,0 +1,40 @@
+import { DOMDiff, DOMElement, DOMElementField } from '@bugbot/runner';
+import { describeStates } from './element-format';
+
+const MAX_LISTED_ELEMENTS = 10;
+const MAX_LABEL_LENGTH = 60;
+
+/**
+ * Renders a page diff one change per line, e.g. `+ [12] status "Saved"` or
+ * `~ [3] button "Save" text: "Save" → "Saving..."`. An unchanged page gives no
+ * lines.
+ */
+export function describePageChanges(diff: DOMDiff, maxElements: number = MAX_LISTED_ELEMENTS): string[] {
+  const lines: string[] = [];
+  if (diff.url) lines.push(`URL: ${diff.url.from} → ${diff.url.to}`);
+  if (diff.title) lines.push(`Title: "${diff.title.from}" → "${diff.title.to}"`);
+
+  const list = (items: string[]) => items.length > maxElements
+    ? [...items.slice(0, maxElements), `  (${items.length - maxElements} more)`]
+    : items;
+
+  lines.push(...list(diff.added.map(el => `+ ${describeElement(el)}`)));
+  lines.push(...list(diff.removed.map(el => `- ${describeElement(el)}`)));
+  lines.push(...list(diff.changed.map(change => {
+    const fields = change.fields.map(field =>
+      `${field}: ${fieldValue(change.before, field)} → ${fieldValue(change.after, field)}`
+    );
+    return `~ ${describeElement(change.after)} ${fields.join(', ')}`;
+  })));
+  return lines;
+}
+
+function fieldValue(el: DOMElement, field: DOMElementField): string {
+  return field === 'states' ? `"${describeStates(el.states)}"` : JSON.stringify(el[field] ?? '');
+}
+
+function describeElement(el: DOMElement): string {
+  const label = el.name || el.text || '';
+  const truncated = label.length > MAX_LABEL_LENGTH ? `${label.substring(0, MAX_LABEL_LENGTH)}...` : label;
+  return `[${el.id}] ${el.role || el.tagName} "${truncated}"`;
+}
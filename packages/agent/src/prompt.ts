@@ -1,25 +1,216 @@
-import { AgentObservation, AgentAction, AgentHistory } from './types';
+import { DOMElement } from '@bugbot/runner';
+import { AgentObservation, AgentHistory } from './types';
+import { describeAction, describeActionOutcome } from './action-format';
+import { describeElement } from './element-format';
+import { bugKeywords, relevanceScore } from './element-ranking';
+import { newNetworkEntries, describeNetworkActivity, describeFailedRequests } from './network-summary';
+import { describePageChanges } from './page-changes';
 
+/** Prompt size when neither the caller nor the provider sets one, in estimated tokens */
+export const DEFAULT_PROMPT_TOKEN_BUDGET = 8000;
+
+const MAX_LISTED_ACTIONS = 10;
+const MAX_LISTED_CONSOLE_ERRORS = 5;
+const MAX_LISTED_BACKEND_LOGS = 10;
+
+export interface PromptOptions {
+  /** Whether a screenshot is attached, and if it has numbered element boxes */
+  screenshot?: 'plain' | 'annotated';
+  /** Upper bound on the prompt's size in estimated tokens (default: `DEFAULT_PROMPT_TOKEN_BUDGET`) */
+  tokenBudget?: number;
+}
+
+export interface BuiltPrompt {
+  text: string;
+  /** Estimated size in tokens */
+  tokens: number;
+  /** What was left out to fit the budget, e.g. `12 of 40 elements` */
+  dropped: string[];
+}
+
+type PromptSection = 'elements' | 'pageText' | 'actions' | 'consoleErrors' | 'networkActivity' | 'failedRequests' | 'backendLogs';
+
+/** How each section's items are counted in `BuiltPrompt.dropped` */
+const SECTION_LABELS: Record<PromptSection, string> = {
+  elements: 'elements',
+  pageText: 'page text items',
+  actions: 'recent actions',
+  consoleErrors: 'console errors',
+  networkActivity: 'network requests',
+  failedRequests: 'failed requests',
+  backendLogs: 'backend log lines'
+};
+
+interface PromptItem {
+  section: PromptSection;
+  text: string;
+  /** Higher goes in first when the budget is tight */
+  priority: number;
+  /** Position within its section */
+  order: number;
+}
+
+/**
+ * Rough token count: about four characters per token for English text and JSON.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Builds the step prompt within a token budget. The instructions, the page state
+ * and what the last action changed are always included. Elements, recent
+ * actions, console errors, network activity and backend logs are added by
+ * priority until the budget is spent: elements ranked by relevance to the bug,
+ * errors and recent actions ahead of older or routine entries. Each section
+ * keeps its natural order.
+ */
 export function buildPrompt(
   bugDescription: string,
   currentObservation: AgentObservation,
-  history: AgentHistory
+  history: AgentHistory,
+  options: PromptOptions = {}
+): BuiltPrompt {
+  const budget = options.tokenBudget ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+  const items: PromptItem[] = [];
+  const addItems = (section: PromptSection, entries: Array<{ text: string; priority: number }>) =>
+    entries.forEach((entry, order) => items.push({ section, order, ...entry }));
+
+  const keywords = bugKeywords(bugDescription);
+  const viewport = currentObservation.state.viewport;
+  const rank = (el: DOMElement) => ({ text: `- ${describeElement(el)}`, priority: relevanceScore(el, keywords, viewport) });
+  addItems('elements', currentObservation.dom.filter(el => el.interactive).map(rank));
+  // Headings, alerts, badges and other text, e.g. to read a cart count or an error message
+  addItems('pageText', currentObservation.dom.filter(el => !el.interactive).map(rank));
+
+  addItems('actions', history.outcomes.slice(-MAX_LISTED_ACTIONS).map((outcome, idx, listed) => ({
+    text: `- Step ${outcome.stepNumber}: ${describeActionOutcome(outcome)}`,
+    // Failures stay longer, they tell the agent what not to repeat
+    priority: (outcome.executed ? 100 : 105) - (listed.length - 1 - idx) * 5
+  })));
+
+  const consoleErrorList = currentObservation.state.consoleErrors.slice(-MAX_LISTED_CONSOLE_ERRORS);
+  addItems('consoleErrors', consoleErrorList.map((error, idx) => ({
+    text: `- ${error}`,
+    priority: 85 - (consoleErrorList.length - 1 - idx) * 2
+  })));
+
+  const pageUrl = currentObservation.state.url;
+  // Entries start with "- " (or "(" for the omitted count); continuation lines are indented
+  const entriesOf = (summary: string) => summary ? summary.split(/\n(?=[-(])/) : [];
+  addItems('networkActivity', entriesOf(describeNetworkActivity(newNetworkEntries(currentObservation, history), pageUrl))
+    .map(text => ({ text, priority: 45 })));
+  addItems('failedRequests', entriesOf(describeFailedRequests(currentObservation.state.networkEntries, pageUrl))
+    .map(text => ({ text, priority: 80 })));
+  addItems('backendLogs', currentObservation.state.backendLogs.slice(-MAX_LISTED_BACKEND_LOGS).map(log => ({
+    text: `- [${log.level}] ${log.message}`,
+    priority: log.level === 'error' ? 75 : log.level === 'warn' ? 60 : 30
+  })));
+
+  const render = (kept: PromptItem[]) => {
+    const section = (name: PromptSection) => kept
+      .filter(item => item.section === name)
+      .sort((a, b) => a.order - b.order)
+      .map(item => item.text);
+    const hidden = (name: PromptSection) =>
+      items.filter(item => item.section === name).length - section(name).length;
+    return renderPrompt(bugDescription, currentObservation, history, options, {
+      elements: section('elements'),
+      hiddenElements: hidden('elements'),
+      pageText: section('pageText'),
+      hiddenPageText: hidden('pageText'),
+      actions: section('actions'),
+      consoleErrors: section('consoleErrors'),
+      networkActivity: section('networkActivity'),
+      failedRequests: section('failedRequests'),
+      backendLogs: section('backendLogs')
+    });
+  };
+
+  // Fill what the fixed parts leave, most important first, skipping items that don't fit
+  let remaining = budget - estimateTokens(render([]));
+  const kept = [...items]
+    .sort((a, b) => b.priority - a.priority)
+    .filter(item => {
+      const cost = estimateTokens(item.text) + 1;
+      if (cost > remaining) return false;
+      remaining -= cost;
+      return true;
+    });
+
+  const text = render(kept);
+  const dropped = (Object.keys(SECTION_LABELS) as PromptSection[])
+    .map(name => {
+      const total = items.filter(item => item.section === name).length;
+      const left = total - kept.filter(item => item.section === name).length;
+      return left > 0 ? `${left} of ${total} ${SECTION_LABELS[name]}` : '';
+    })
+    .filter(Boolean);
+  return { text, tokens: estimateTokens(text), dropped };
+}
+
+interface PromptSections {
+  elements: string[];
+  /** Elements left out for the budget */
+  hiddenElements: number;
+  pageText: string[];
+  hiddenPageText: number;
+  actions: string[];
+  consoleErrors: string[];
+  networkActivity: string[];
+  failedRequests: string[];
+  backendLogs: string[];
+}
+
+function renderPrompt(
+  bugDescription: string,
+  currentObservation: AgentObservation,
+  history: AgentHistory,
+  options: PromptOptions,
+  sections: PromptSections
 ): string {
-  const clickableElements = currentObservation.dom
-    .filter(el => el.clickable)
-    .slice(0, 30) // Limit to first 30 clickable elements
-    .map(el => `- ${el.text || '(no text)'} [${el.selector}] [role: ${el.role}]`)
-    .join('\n');
-
-  const recentActions = history.actions
-    .slice(-5)
-    .map((action, idx) => `${idx + 1}. ${action.type}(${action.selector}${action.text ? `, "${action.text}"` : ''})`)
-    .join('\n');
-
-  const consoleErrors = currentObservation.state.consoleErrors.length > 0
-    ? `\nConsole Errors:\n${currentObservation.state.consoleErrors.slice(-5).map((e: string) => `- ${e}`).join('\n')}`
+  const hiddenNote = (count: number, what: string) => count > 0 ? `\n(${count} less relevant ${what} not shown)` : '';
+  const elements = sections.elements.join('\n') + hiddenNote(sections.hiddenElements, 'elements');
+  const pageText = sections.pageText.join('\n') + hiddenNote(sections.hiddenPageText, 'text items');
+
+  const screenshotSection = options.screenshot === 'annotated'
+    ? `\nScreenshot:
+A screenshot of the current viewport is attached. Each element is outlined and tagged with its [id] from the element list (red: clickable, blue: other). Use it to spot visual bugs such as overlapping elements, wrong colours or incorrect values.\n`
+    : options.screenshot === 'plain'
+    ? `\nScreenshot:
+A screenshot of the current viewport is attached. Use it to spot visual bugs such as overlapping elements, wrong colours or incorrect values.\n`
+    : '';
+
+  const recentActions = sections.actions.join('\n');
+
+  const actionError = currentObservation.actionError
+    ? `\nYour Last Action Failed:\n${currentObservation.actionError}\nFix the action (e.g. a missing parameter or an id that is not in Available Elements) instead of repeating it.\n`
+    : '';
+
+  // Only meaningful when the last action ran; after a failed action the page was left alone
+  const lastAction = history.actions[history.actions.length - 1];
+  const changeLines = currentObservation.changes ? describePageChanges(currentObservation.changes) : [];
+  const changes = currentObservation.changes && lastAction && !currentObservation.actionError
+    ? `\nWhat Changed After Your Last Action (${describeAction(lastAction)}):\n${changeLines.length > 0
+        ? changeLines.join('\n')
+        : 'Nothing: no element appeared, disappeared or changed, and the URL and title are the same.'}\n`
+    : '';
+
+  const consoleErrors = sections.consoleErrors.length > 0
+    ? `\nConsole Errors:\n${sections.consoleErrors.join('\n')}`
+    : currentObservation.state.consoleErrors.length > 0
+    ? '\nConsole Errors: (left out to fit the prompt)'
     : '\nConsole Errors: None';
 
+  const networkActivity = sections.networkActivity.join('\n');
+  const failedRequests = sections.failedRequests.join('\n');
+  const networkSection = `\nNetwork Activity Since Last Step:\n${networkActivity || 'None'}`
+    + (failedRequests ? `\n\nFailed Requests (4xx/5xx or no response):\n${failedRequests}` : '');
+
+  const backendLogs = sections.backendLogs.length > 0
+    ? `\nBackend Logs:\n${sections.backendLogs.join('\n')}`
+    : '';
+
   return `You are a UI testing agent. Your goal is to reproduce the following bug:
 
 BUG DESCRIPTION: ${bugDescription}
@@ -29,22 +220,34 @@ Current Page State:
 - Title: ${currentObservation.state.title}
 - Step: ${currentObservation.stepNumber}
 
-Available Clickable Elements:
-${clickableElements || '(none found)'}
+Available Elements ([id] name (role, value and states)):
+${elements || '(none found)'}
 
-Recent Actions Taken:
-${recentActions || 'None yet'}
+Page Text ([id] text (role)):
+${pageText || '(none found)'}
 
+Recent Actions Taken (with outcomes):
+${recentActions || 'None yet'}
+${actionError}${changes}
 ${consoleErrors}
-
+${networkSection}
+${backendLogs}
+${screenshotSection}
 Your task:
-1. Analyze the current state and available elements
+1. Analyze the current state, available elements, page text, network activity${options.screenshot ? ' and the screenshot' : ''}
 2. Decide the next best action to reproduce the bug
 3. Return a JSON response with your reasoning and action
 
 Available Actions:
-- click: Click on an element (use selector from available elements)
-- input: Type text into an input field (requires selector and text)
+- click: Click on an element (requires elementId)
+- input: Type text into an input field, replacing its value (requires elementId and text)
+- select: Choose an option of a dropdown (requires elementId and value: the option's label or value)
+- hover: Move the mouse over an element, e.g. to open a hover menu or tooltip (requires elementId)
+- keypress: Press a key such as "Enter", "Escape", "Tab" or "Control+A" (requires key; elementId optional, defaults to the focused element)
+- scroll: Scroll an element into view (elementId), or scroll the page (direction: "up" or "down") to reveal more content
+- check: Check or uncheck a checkbox or radio button (requires elementId; checked defaults to true)
+- drag: Drag an element and drop it on another (requires elementId and toElementId)
+- upload: Attach a file to a file input (requires elementId and fileName; fileContent optional)
 - wait: Wait for something to load (use sparingly)
 - navigate: Navigate to a different URL (requires url)
 
@@ -52,10 +255,17 @@ Response Format (JSON only, no markdown):
 {
   "thought": "Analysis of current state. If you have performed the action and the observed behavior matches the bug description (e.g., error appeared, nothing happened, wrong state), set status to 'reproduced'.",
   "action": {
-    "type": "click" | "input" | "wait" | "navigate",
-    "selector": "selector from available elements",
+    "type": "click" | "input" | "select" | "hover" | "keypress" | "scroll" | "check" | "drag" | "upload" | "wait" | "navigate",
+    "elementId": "numeric [id] of the target element from Available Elements",
     "target": "human-readable description of target",
     "text": "text to input (only for input action)",
+    "value": "option label or value (only for select action)",
+    "key": "key to press (only for keypress action)",
+    "direction": "up or down (only for scroll action without elementId)",
+    "checked": "true or false (only for check action)",
+    "toElementId": "numeric [id] of the element to drop on (only for drag action)",
+    "fileName": "name of the file, e.g. report.csv (only for upload action)",
+    "fileContent": "text content of the file (only for upload action)",
     "url": "url to navigate to (only for navigate action)"
   },
   "status": "in_progress" | "reproduced" | "failed",
@@ -63,11 +273,12 @@ Response Format (JSON only, no markdown):
 }
 
 CRITICAL INSTRUCTIONS:
-1. CHECK HISTORY: Review 'Recent Actions Taken'. If you have already performed the action that is supposed to trigger the bug, check the current state.
+1. CHECK HISTORY: Review 'Recent Actions Taken'. If you have already performed the action that is supposed to trigger the bug, check the current state. Do not retry a failed action unchanged; pick another element or fix its parameters.
 2. MATCH BUG: Does the current state match the BUG DESCRIPTION?
    - If the bug is "X does not happen", and you did the action and X didn't happen -> REPRODUCED.
    - If the bug is "Error Y appears", and you see Error Y -> REPRODUCED.
-3. STOP LOOPING: Do not repeat the same action more than twice if the state isn't changing. If the expected happy path isn't working, that IS the bug.
-4. DETECT FAILURE: If an action produces no visible change when it should, that confirms the bug. Mark as 'reproduced'.`;
+   - If the bug is server-side (e.g. data not saved, a value missing), check the network activity: a failed request or a response missing the expected field confirms it.
+3. STOP LOOPING: Do not repeat an action that changed nothing, and learn from earlier steps in this conversation: an action that failed before will fail again unless you change it. If the expected happy path isn't working, that IS the bug.
+4. DETECT FAILURE: Use 'What Changed After Your Last Action' rather than comparing the page from memory. If it shows no change (or the wrong change) where the action should have had a visible effect, that confirms the bug. Mark as 'reproduced'.`;
 }
 
@@ -0,0 +1,73 @@
+import { CompletionRequest, ContentPart, ModelProvider, messageText } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Provider for the Anthropic Messages API.
+ */
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(model: string, apiKey: string, baseUrl: string = 'https://api.anthropic.com') {
+    this.model = model;
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    // The Messages API takes the system prompt separately from the conversation
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => messageText(message))
+      .join('\n\n');
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => this.toContentBlock(part))
+      }));
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 2048,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature
+      }),
+      signal: request.signal
+    });
+
+    const body: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`Anthropic API error (${response.status}): ${body?.error?.message || response.statusText}`);
+    }
+
+    const content = (body?.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+    if (!content) {
+      throw new Error('No response from LLM');
+    }
+    return content;
+  }
+
+  private toContentBlock(part: ContentPart) {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    return { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data } };
+  }
+}
@@ -0,0 +1,114 @@
+import { ModelProvider, ProviderDefinition, ProviderOptions } from './types';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { OllamaProvider } from './ollama';
+import { ScriptedProvider } from './scripted';
+
+export * from './types';
+export { OpenAICompatibleProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { OllamaProvider } from './ollama';
+export { ScriptedProvider } from './scripted';
+
+/** Context size Ollama models run with, in tokens */
+const OLLAMA_CONTEXT_TOKENS = 8192;
+
+const registry = new Map<string, ProviderDefinition>();
+
+export function registerProvider(name: string, definition: ProviderDefinition): void {
+  registry.set(name, definition);
+}
+
+export function getProviderDefinition(name: string): ProviderDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listProviders(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Returns the API key passed in or, failing that, the first one set in the provider's environment variables.
+ */
+export function resolveApiKey(name: string, apiKey?: string): string | undefined {
+  const definition = registry.get(name);
+  if (!definition) return apiKey;
+  return apiKey || definition.apiKeyEnv.map(env => process.env[env]).find(Boolean);
+}
+
+export function createProvider(name: string, options: ProviderOptions = {}): ModelProvider {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`Unknown LLM provider "${name}". Available providers: ${listProviders().join(', ')}`);
+  }
+
+  const apiKey = resolveApiKey(name, options.apiKey);
+  if (definition.requiresApiKey && !apiKey) {
+    throw new Error(`API key required. Set ${definition.apiKeyEnv[0]} environment variable or pass as parameter.`);
+  }
+
+  return definition.create({
+    ...options,
+    apiKey,
+    model: options.model || definition.defaultModel
+  });
+}
+
+registerProvider('gemini', {
+  defaultModel: 'gemini-2.0-flash-thinking-exp-01-21',
+  apiKeyEnv: ['GEMINI_API_KEY', 'OPENAI_API_KEY'],
+  requiresApiKey: true,
+  create: ({ model, apiKey, baseUrl }) => new OpenAICompatibleProvider(
+    'gemini',
+    model,
+    apiKey!,
+    baseUrl || 'https://generativelanguage.googleapis.com/v1beta/openai/'
+  )
+});
+
+registerProvider('openai', {
+  defaultModel: 'gpt-4-turbo-preview',
+  apiKeyEnv: ['OPENAI_API_KEY', 'GEMINI_API_KEY'],
+  requiresApiKey: true,
+  create: ({ model, apiKey, baseUrl }) => new OpenAICompatibleProvider('openai', model, apiKey!, baseUrl)
+});
+
+registerProvider('anthropic', {
+  defaultModel: 'claude-3-5-sonnet-latest',
+  apiKeyEnv: ['ANTHROPIC_API_KEY'],
+  requiresApiKey: true,
+  create: ({ model, apiKey, baseUrl }) => new AnthropicProvider(
+    model,
+    apiKey!,
+    baseUrl || process.env.ANTHROPIC_BASE_URL
+  )
+});
+
+// Ollama's own API; other local OpenAI-compatible servers work as `openai` with --base-url
+registerProvider('ollama', {
+  defaultModel: 'llama3.1',
+  apiKeyEnv: ['OLLAMA_API_KEY'],
+  requiresApiKey: false,
+  // Local models are slow on long prompts. The context asked for (Ollama's default is only
+  // 2048 tokens) fits this prompt, the conversation kept alongside it and the reply.
+  promptTokenBudget: 3000,
+  create: ({ model, apiKey, baseUrl }) => new OllamaProvider(
+    model,
+    OLLAMA_CONTEXT_TOKENS,
+    baseUrl || process.env.OLLAMA_BASE_URL,
+    apiKey
+  )
+});
+
+registerProvider('scripted', {
+  defaultModel: 'script',
+  apiKeyEnv: [],
+  requiresApiKey: false,
+  create: ({ scriptPath }) => {
+    const file = scriptPath || process.env.BUGBOT_SCRIPT;
+    if (!file) {
+      throw new Error('The scripted provider requires a script file. Pass --script <file> or set BUGBOT_SCRIPT.');
+    }
+    return new ScriptedProvider(file);
+  }
+});
@@ -0,0 +1,60 @@
+import { ChatMessage, CompletionRequest, ModelProvider, messageText } from './types';
+
+/**
+ * Provider for Ollama's own chat API. Unlike its OpenAI-compatible endpoint, it
+ * takes the context size per request (`num_ctx`); Ollama's default of 2048
+ * tokens would silently cut the step prompt.
+ */
+export class OllamaProvider implements ModelProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+
+  /**
+   * @param contextTokens Context size to run the model with, in tokens
+   * @param apiKey Sent as a bearer token, for servers behind an authenticating proxy
+   */
+  constructor(model: string, private contextTokens: number, baseUrl: string = 'http://localhost:11434', private apiKey?: string) {
+    this.model = model;
+    // Also accept the OpenAI-compatible base URL (`.../v1`)
+    this.baseUrl = baseUrl.replace(/\/$/, '').replace(/\/v1$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages.map(message => this.toOllamaMessage(message)),
+        format: request.json ? 'json' : undefined,
+        stream: false,
+        options: { num_ctx: this.contextTokens, temperature: request.temperature }
+      }),
+      signal: request.signal
+    });
+
+    const body: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`Ollama API error (${response.status}): ${body?.error || response.statusText}`);
+    }
+
+    const content = body?.message?.content;
+    if (!content) {
+      throw new Error('No response from LLM');
+    }
+    return content;
+  }
+
+  private toOllamaMessage(message: ChatMessage) {
+    if (typeof message.content === 'string') {
+      return { role: message.role, content: message.content };
+    }
+    // Images go alongside the text rather than between its parts
+    const images = message.content.flatMap(part => part.type === 'image' ? [part.data] : []);
+    return { role: message.role, content: messageText(message), ...(images.length > 0 ? { images } : {}) };
+  }
+}
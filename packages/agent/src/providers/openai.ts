@@ -0,0 +1,45 @@
+import OpenAI from 'openai';
+import { ChatMessage, CompletionRequest, ModelProvider, messageText } from './types';
+
+/**
+ * Provider for any backend speaking the OpenAI chat completions API:
+ * OpenAI itself, Gemini's compatibility endpoint and local servers (Ollama has its own provider).
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(name: string, model: string, apiKey: string, baseURL?: string) {
+    this.name = name;
+    this.model = model;
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages.map(message => this.toOpenAIMessage(message)),
+      temperature: request.temperature,
+      response_format: request.json ? { type: 'json_object' } : undefined
+    }, { signal: request.signal });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from LLM');
+    }
+    return content;
+  }
+
+  private toOpenAIMessage(message: ChatMessage): OpenAI.Chat.ChatCompletionMessageParam {
+    if (typeof message.content === 'string' || message.role !== 'user') {
+      return { role: message.role, content: typeof message.content === 'string' ? message.content : messageText(message) };
+    }
+    return {
+      role: 'user',
+      content: message.content.map(part => part.type === 'text'
+        ? { type: 'text' as const, text: part.text }
+        : { type: 'image_url' as const, image_url: { url: `data:${part.mediaType};base64,${part.data}` } })
+    };
+  }
+}
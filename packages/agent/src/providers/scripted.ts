@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import { AgentResponse } from '../types';
+import { CompletionRequest, ModelProvider } from './types';
+
+/**
+ * Deterministic provider that replays canned `AgentResponse`s from a file instead
+ * of calling a model. The file is either a JSON array or JSONL, one response per line.
+ * Once the script runs out, the provider keeps answering with a `wait` action.
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  readonly model: string;
+  private responses: AgentResponse[];
+  private index = 0;
+
+  constructor(scriptPath: string) {
+    this.model = scriptPath;
+    this.responses = ScriptedProvider.load(scriptPath);
+  }
+
+  static load(scriptPath: string): AgentResponse[] {
+    if (!fs.existsSync(scriptPath)) {
+      throw new Error(`Script file not found: ${scriptPath}`);
+    }
+    const content = fs.readFileSync(scriptPath, 'utf-8').trim();
+    if (content.startsWith('[')) {
+      return JSON.parse(content);
+    }
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+
+  async complete(_request: CompletionRequest): Promise<string> {
+    const response = this.responses[this.index];
+    if (!response) {
+      return JSON.stringify({
+        thought: `Script exhausted after ${this.responses.length} responses.`,
+        action: { type: 'wait' },
+        status: 'in_progress'
+      });
+    }
+    this.index++;
+    return JSON.stringify(response);
+  }
+}
@@ -0,0 +1,56 @@
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mediaType: 'image/png' | 'image/jpeg' };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  /** Plain text, or a mix of text and base64 images for multimodal models */
+  content: string | ContentPart[];
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  /** Ask the backend to constrain its output to a JSON object, where supported */
+  json?: boolean;
+  /** Cancels the request, e.g. when the step runs out of time */
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat-completion backend used by the agent. Implementations return the raw
+ * text of the model's reply; parsing it into an `AgentResponse` is the agent's job.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  /** Path to a file of canned responses, for the scripted provider */
+  scriptPath?: string;
+}
+
+export interface ProviderDefinition {
+  defaultModel: string;
+  /** Environment variables checked, in order, when no API key is passed */
+  apiKeyEnv: string[];
+  requiresApiKey: boolean;
+  /** Step prompt size for this provider's models, in estimated tokens; smaller for local models with short contexts */
+  promptTokenBudget?: number;
+  create(options: ProviderOptions & { model: string }): ModelProvider;
+}
+
+export function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return message.content
+    .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
@@ -1,11 +1,32 @@
-import { DOMElement, BrowserState } from '@bugbot/runner';
+import { DOMElement, BrowserState, DOMDiff, LocatorCandidate } from '@bugbot/runner';
+
+export type AgentActionType =
+  | 'click' | 'input' | 'wait' | 'navigate'
+  | 'select' | 'hover' | 'keypress' | 'scroll' | 'check' | 'drag' | 'upload';
 
 export interface AgentAction {
-  type: 'click' | 'input' | 'wait' | 'navigate';
+  type: AgentActionType;
   target?: string;
-  selector: string;
+  /** Id of the target element from the observation's DOM */
+  elementId?: number;
+  /** Raw CSS selector, for actions that don't come from the agent (e.g. replays) */
+  selector?: string;
   text?: string;
   url?: string;
+  /** Option label or value, for select */
+  value?: string;
+  /** Key to press, e.g. `Enter` or `Control+A`, for keypress */
+  key?: string;
+  /** Page scroll direction when no element is given, for scroll */
+  direction?: 'up' | 'down';
+  /** Whether to check or uncheck, for check (defaults to true) */
+  checked?: boolean;
+  /** Id of the element to drop on, for drag */
+  toElementId?: number;
+  /** Name of the file to upload, for upload */
+  fileName?: string;
+  /** Text content of the file to upload, for upload */
+  fileContent?: string;
 }
 
 export interface AgentResponse {
@@ -20,10 +41,66 @@ export interface AgentObservation {
   state: BrowserState;
   screenshot?: string;
   stepNumber: number;
+  /** Why the previous step's action could not be executed, if it failed */
+  actionError?: string;
+  /** How the page changed since the previous observation; unset for the first one */
+  changes?: DOMDiff;
+}
+
+/**
+ * What came of an action the agent chose, whether or not the runner could carry it out.
+ */
+export interface ActionOutcome {
+  stepNumber: number;
+  action: AgentAction;
+  executed: boolean;
+  /** Why the runner could not carry it out */
+  error?: string;
+  /** Locator strategy the runner resolved the target with, for actions on an element */
+  strategy?: LocatorCandidate['strategy'];
+  /** Whether the page changed afterwards; unset until the next observation */
+  pageChanged?: boolean;
 }
 
 export interface AgentHistory {
   observations: AgentObservation[];
+  /** Actions that were executed */
   actions: AgentAction[];
+  /** Every action tried, in order, including the ones that failed */
+  outcomes: ActionOutcome[];
 }
 
+
+/**
+ * Something observed during a run that may support or contradict a reproduction,
+ * cited by the verifier by its `id` (e.g. `E3`).
+ */
+export interface VerificationEvidence {
+  id: string;
+  kind: 'console' | 'network' | 'backend' | 'dom' | 'action';
+  /** Step the evidence comes from, if any */
+  stepNumber?: number;
+  description: string;
+}
+
+export interface VerificationInput {
+  bugDescription: string;
+  /** Why the run claims the bug was reproduced */
+  claim: string;
+  /** Observation taken after the last action */
+  finalObservation: AgentObservation;
+  /** Actions that were executed, in order */
+  actions: AgentAction[];
+  evidence: VerificationEvidence[];
+}
+
+export type VerdictStatus = 'reproduced' | 'not_reproduced' | 'inconclusive';
+
+export interface Verdict {
+  status: VerdictStatus;
+  /** 0 to 1 */
+  confidence: number;
+  reasoning: string;
+  /** Evidence the verdict rests on, by id, with what each one shows */
+  citedEvidence: Array<{ id: string; explanation: string }>;
+}
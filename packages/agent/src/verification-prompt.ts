@@ -0,0 +1,52 @@
+import { VerificationInput } from './types';
+import { describeAction } from './action-format';
+import { describeElement } from './element-format';
+
+export function buildVerificationPrompt(input: VerificationInput): string {
+  const observation = input.finalObservation;
+  const elements = observation.dom
+    .slice(0, 40)
+    .map(el => `- ${describeElement(el)}`)
+    .join('\n');
+
+  const actions = input.actions
+    .map((action, idx) => `${idx + 1}. ${describeAction(action)}${action.target ? ` - ${action.target}` : ''}`)
+    .join('\n');
+
+  const evidence = input.evidence
+    .map(item => `[${item.id}] (${item.kind}${item.stepNumber !== undefined ? `, step ${item.stepNumber}` : ''}) ${item.description}`)
+    .join('\n');
+
+  return `You are reviewing whether a bug was really reproduced. Another agent drove a browser and claims it reproduced the bug. Judge the claim only by the evidence below, not by the claim itself.
+
+BUG DESCRIPTION: ${input.bugDescription}
+
+CLAIM: ${input.claim}
+
+Actions Executed:
+${actions || 'None'}
+
+Final Page State:
+- URL: ${observation.state.url}
+- Title: ${observation.state.title}
+Elements ([id] name (role, value and states)):
+${elements || '(none found)'}
+
+Evidence:
+${evidence || 'None collected'}
+
+Decide:
+- "reproduced": the evidence shows the behavior described in the bug, after the actions that should trigger it.
+- "not_reproduced": the evidence shows the application behaving correctly where the bug says it doesn't.
+- "inconclusive": there isn't enough evidence either way. For example, the triggering action was never executed, or nothing was observed that distinguishes the buggy from the correct behavior. An action "having no effect" only counts if the evidence shows the page didn't change when it should have.
+
+Cite the evidence ids your verdict rests on. A "reproduced" verdict must cite at least one piece of evidence.
+
+Response Format (JSON only, no markdown):
+{
+  "status": "reproduced" | "not_reproduced" | "inconclusive",
+  "confidence": number between 0 and 1,
+  "reasoning": "How the evidence supports the verdict",
+  "citedEvidence": [{ "id": "E1", "explanation": "What this evidence shows" }]
+}`;
+}
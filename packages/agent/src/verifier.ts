@@ -0,0 +1,144 @@
+import { Verdict, VerdictStatus, VerificationInput } from './types';
+import { buildVerificationPrompt } from './verification-prompt';
+import { LLMProvider } from './agent';
+import { ChatMessage, ModelProvider, ProviderOptions, createProvider } from './providers';
+import chalk from 'chalk';
+
+/** A `reproduced` verdict less confident than this is reported as inconclusive */
+export const MIN_VERIFIED_CONFIDENCE = 0.6;
+
+const VERDICT_STATUSES: VerdictStatus[] = ['reproduced', 'not_reproduced', 'inconclusive'];
+
+export interface VerifierOptions extends Pick<ProviderOptions, 'baseUrl' | 'scriptPath'> {
+  /** Attach the final screenshot (requires a multimodal model) */
+  vision?: boolean;
+}
+
+/**
+ * Second opinion on a claimed reproduction. It sees the evidence collected during
+ * the run rather than the acting agent's reasoning, and must cite the evidence
+ * its verdict rests on.
+ */
+export class BugVerifier {
+  private provider: ModelProvider;
+  private verbose: boolean;
+  private options: VerifierOptions;
+
+  constructor(
+    apiKey?: string,
+    provider: LLMProvider | ModelProvider = 'gemini',
+    model?: string,
+    verbose: boolean = false,
+    options: VerifierOptions = {}
+  ) {
+    this.verbose = verbose;
+    this.options = options;
+    this.provider = typeof provider === 'string'
+      ? createProvider(provider, { baseUrl: options.baseUrl, scriptPath: options.scriptPath, apiKey, model })
+      : provider;
+  }
+
+  /**
+   * Returns the verdict on the claim. Model or parsing errors give an
+   * inconclusive verdict; an aborted `signal` rejects instead.
+   */
+  async verify(input: VerificationInput, signal?: AbortSignal): Promise<Verdict> {
+    const prompt = buildVerificationPrompt(input);
+    const screenshot = this.options.vision ? input.finalObservation.screenshot : undefined;
+
+    if (this.verbose) {
+      console.log(chalk.gray('\n' + '='.repeat(80)));
+      console.log(chalk.cyan.bold('🔎 VERIFICATION REQUEST'));
+      console.log(chalk.gray('='.repeat(80)));
+      console.log(chalk.yellow(`Model: ${this.provider.model} (${this.provider.name})`));
+      console.log(chalk.yellow(`Evidence: ${input.evidence.length} items`));
+      console.log(chalk.white(prompt.substring(0, 1000) + (prompt.length > 1000 ? '...' : '')));
+      console.log(chalk.gray('='.repeat(80)));
+    }
+
+    try {
+      const content = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a skeptical QA reviewer. Always respond with valid JSON only, no markdown formatting.'
+          },
+          this.userMessage(prompt, screenshot)
+        ],
+        temperature: 0,
+        json: true,
+        signal
+      });
+
+      if (this.verbose) {
+        console.log(chalk.gray('\n--- RAW VERIFICATION RESPONSE ---'));
+        console.log(chalk.white(content));
+        console.log(chalk.gray('='.repeat(80)));
+      }
+
+      return this.normalize(this.parse(content), input);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      return {
+        status: 'inconclusive',
+        confidence: 0,
+        reasoning: `Verification failed: ${error.message}`,
+        citedEvidence: []
+      };
+    }
+  }
+
+  private parse(content: string): Partial<Verdict> {
+    try {
+      return JSON.parse(content);
+    } catch (parseError) {
+      // Try to extract JSON from markdown code blocks if present
+      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
+      if (jsonMatch) {
+        return JSON.parse(jsonMatch[1]);
+      }
+      throw parseError;
+    }
+  }
+
+  /**
+   * Drops citations of evidence that doesn't exist, and downgrades `reproduced`
+   * verdicts that cite nothing or aren't confident enough.
+   */
+  private normalize(raw: Partial<Verdict>, input: VerificationInput): Verdict {
+    const knownIds = new Set(input.evidence.map(item => item.id));
+    const confidence = Math.min(1, Math.max(0, Number(raw.confidence) || 0));
+    const citedEvidence = (Array.isArray(raw.citedEvidence) ? raw.citedEvidence : [])
+      .filter(cited => cited && knownIds.has(String(cited.id)))
+      .map(cited => ({ id: String(cited.id), explanation: String(cited.explanation || '') }));
+    const verdict: Verdict = {
+      status: VERDICT_STATUSES.includes(raw.status as VerdictStatus) ? raw.status as VerdictStatus : 'inconclusive',
+      confidence,
+      reasoning: String(raw.reasoning || ''),
+      citedEvidence
+    };
+
+    if (verdict.status === 'reproduced' && citedEvidence.length === 0) {
+      return { ...verdict, status: 'inconclusive', reasoning: `${verdict.reasoning} (No evidence was cited.)`.trim() };
+    }
+    if (verdict.status === 'reproduced' && confidence < MIN_VERIFIED_CONFIDENCE) {
+      return { ...verdict, status: 'inconclusive', reasoning: `${verdict.reasoning} (Confidence ${confidence} is below ${MIN_VERIFIED_CONFIDENCE}.)`.trim() };
+    }
+    return verdict;
+  }
+
+  private userMessage(prompt: string, screenshot?: string): ChatMessage {
+    if (!screenshot) {
+      return { role: 'user', content: prompt };
+    }
+    return {
+      role: 'user',
+      content: [
+        { type: 'text', text: prompt },
+        { type: 'image', data: screenshot, mediaType: 'image/png' }
+      ]
+    };
+  }
+}
@@ -1,13 +1,20 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { NetworkEntry } from '@bugbot/runner';
+import { StepBackendLogEntry, StepLog } from './step-log';
 
 export interface ArtifactPaths {
   runDir: string;
   tracingPath: string;
   videoPath: string | null;
   reportPath: string;
+  markdownReportPath: string;
+  jsonReportPath: string;
   harPath: string;
   logsPath: string;
+  backendLogPath: string;
+  stepLogPath: string;
+  specPath: string | null;
 }
 
 export class ArtifactManager {
@@ -26,48 +33,96 @@ export class ArtifactManager {
       tracingPath: path.join(this.runDir, 'trace.zip'),
       videoPath: null, // Will be set later
       reportPath: path.join(this.runDir, 'report.html'),
+      markdownReportPath: path.join(this.runDir, 'report.md'),
+      jsonReportPath: path.join(this.runDir, 'report.json'),
       harPath: path.join(this.runDir, 'network.har'),
-      logsPath: path.join(this.runDir, 'console.log')
+      logsPath: path.join(this.runDir, 'console.log'),
+      backendLogPath: path.join(this.runDir, 'backend.log'),
+      stepLogPath: path.join(this.runDir, 'steps.json'),
+      specPath: null // Only written for reproduced runs
     };
   }
 
-  async saveNetworkHAR(networkEntries: any[]): Promise<void> {
+  /**
+   * Writes the network entries as a HAR 1.2 file that browser devtools can import.
+   * Requests that failed without a response get status 0 and a `_failureText`.
+   */
+  async saveNetworkHAR(networkEntries: NetworkEntry[]): Promise<void> {
     const har = {
       log: {
         version: '1.2',
         creator: { name: 'BugBot', version: '1.0.0' },
-        entries: networkEntries.map(entry => ({
-          startedDateTime: new Date(entry.timestamp).toISOString(),
-          request: {
-            method: entry.method,
-            url: entry.url,
-            headers: Object.entries(entry.requestHeaders || {}).map(([name, value]) => ({
-              name,
-              value: String(value)
-            })),
-            httpVersion: 'HTTP/1.1'
-          },
-          response: {
-            status: entry.status || 0,
-            statusText: entry.status ? (entry.status < 400 ? 'OK' : 'Error') : 'Pending',
-            headers: Object.entries(entry.responseHeaders || {}).map(([name, value]) => ({
-              name,
-              value: String(value)
-            })),
-            httpVersion: 'HTTP/1.1'
-          },
-          timings: {
-            wait: 0,
-            receive: 0,
-            send: 0
-          }
-        }))
+        entries: networkEntries.map(entry => this.harEntry(entry))
       }
     };
 
     await fs.writeJSON(path.join(this.runDir, 'network.har'), har, { spaces: 2 });
   }
 
+  private harEntry(entry: NetworkEntry) {
+    const headers = (values: Record<string, string> = {}) =>
+      Object.entries(values).map(([name, value]) => ({ name, value: String(value) }));
+    const timings = entry.timings || { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 };
+    // HAR's total time excludes phases that don't apply (-1); ssl is already part of connect
+    const time = [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive]
+      .filter(t => t > 0)
+      .reduce((sum, t) => sum + t, 0);
+
+    let queryString: Array<{ name: string; value: string }> = [];
+    try {
+      queryString = [...new URL(entry.url).searchParams].map(([name, value]) => ({ name, value }));
+    } catch {
+      // Not a parseable URL (e.g. data:), leave the query string empty
+    }
+
+    const requestContentType = entry.requestHeaders?.['content-type'];
+    const body = entry.responseBody;
+
+    return {
+      startedDateTime: new Date(entry.timestamp).toISOString(),
+      time: entry.durationMs ?? time,
+      request: {
+        method: entry.method,
+        url: entry.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: headers(entry.requestHeaders),
+        queryString,
+        ...(entry.postData !== undefined ? {
+          postData: { mimeType: requestContentType || 'application/octet-stream', text: entry.postData }
+        } : {}),
+        headersSize: -1,
+        bodySize: entry.requestBodySize ?? (entry.postData ? Buffer.byteLength(entry.postData) : 0)
+      },
+      response: {
+        status: entry.status || 0,
+        statusText: entry.statusText || '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: headers(entry.responseHeaders),
+        content: {
+          size: body?.size ?? entry.responseBodySize ?? 0,
+          mimeType: entry.responseHeaders?.['content-type'] || entry.mimeType || '',
+          ...(body ? { text: body.text } : {}),
+          ...(body?.truncated ? { comment: `Truncated to the first ${Buffer.byteLength(body.text)} bytes` } : {})
+        },
+        redirectURL: entry.responseHeaders?.['location'] || '',
+        headersSize: -1,
+        bodySize: entry.responseBodySize ?? -1
+      },
+      cache: {},
+      // Unlike the other phases, HAR requires send, wait and receive to be known (non-negative)
+      timings: {
+        ...timings,
+        send: Math.max(0, timings.send),
+        wait: Math.max(0, timings.wait),
+        receive: Math.max(0, timings.receive)
+      },
+      _resourceType: entry.resourceType,
+      ...(entry.failure ? { _failureText: entry.failure } : {})
+    };
+  }
+
   async saveConsoleLogs(logs: string[]): Promise<void> {
     await fs.writeFile(
       path.join(this.runDir, 'console.log'),
@@ -75,6 +130,30 @@ export class ArtifactManager {
     );
   }
 
+  /**
+   * Writes one line per entry: ISO timestamp, step, level, source and message.
+   */
+  async saveBackendLogs(entries: StepBackendLogEntry[]): Promise<void> {
+    const lines = entries.map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.stepNumber !== undefined ? `step ${entry.stepNumber}` : 'setup',
+      entry.level.toUpperCase(),
+      `[${entry.source}]`,
+      entry.message
+    ].join(' '));
+    await fs.writeFile(path.join(this.runDir, 'backend.log'), lines.join('\n'));
+  }
+
+  async saveStepLog(stepLog: StepLog): Promise<void> {
+    await fs.writeJSON(path.join(this.runDir, 'steps.json'), stepLog, { spaces: 2 });
+  }
+
+  async saveReproductionSpec(spec: string): Promise<string> {
+    const specPath = path.join(this.runDir, 'reproduction.spec.ts');
+    await fs.writeFile(specPath, spec);
+    return specPath;
+  }
+
   async copyVideo(sourcePath: string | null): Promise<string | null> {
     if (!sourcePath || !await fs.pathExists(sourcePath)) {
       return null;
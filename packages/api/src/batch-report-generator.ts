@@ -0,0 +1,152 @@
+import { BatchRunResult, BatchSummary } from './batch-runner';
+
+const STATUS_COLORS: Record<BatchRunResult['status'], string> = {
+  reproduced: '#ef4444',
+  failed: '#f59e0b',
+  inconclusive: '#0ea5e9',
+  timeout: '#6b7280',
+  error: '#7c3aed'
+};
+
+export class BatchReportGenerator {
+  static generateHTML(summary: BatchSummary): string {
+    const duration = Math.round((new Date(summary.endedAt).getTime() - new Date(summary.startedAt).getTime()) / 1000);
+    const statuses = Object.keys(STATUS_COLORS) as Array<BatchRunResult['status']>;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Batch Report - ${this.escapeHtml(summary.batchId)}</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background: #f5f5f5;
+            padding: 20px;
+        }
+        .container {
+            max-width: 1200px;
+            margin: 0 auto;
+            background: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            padding: 30px;
+        }
+        h1 {
+            color: #1f2937;
+            border-bottom: 3px solid #e5e7eb;
+            padding-bottom: 10px;
+            margin-bottom: 20px;
+        }
+        .meta {
+            color: #6b7280;
+            margin-bottom: 20px;
+        }
+        .counts {
+            display: grid;
+            grid-template-columns: repeat(4, 1fr);
+            gap: 20px;
+            margin-bottom: 30px;
+        }
+        .count {
+            background: #f9fafb;
+            padding: 15px;
+            border-radius: 6px;
+            border-left: 4px solid;
+        }
+        .count strong {
+            font-size: 1.6em;
+            display: block;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            text-align: left;
+            padding: 10px;
+            border-bottom: 1px solid #e5e7eb;
+            vertical-align: top;
+        }
+        th {
+            color: #6b7280;
+            font-size: 0.85em;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        .status-badge {
+            display: inline-block;
+            padding: 2px 10px;
+            border-radius: 12px;
+            font-size: 0.8em;
+            font-weight: 600;
+        }
+        .detail {
+            color: #6b7280;
+            font-size: 0.9em;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>Batch Report</h1>
+        <p class="meta">
+            ${this.escapeHtml(summary.batchId)} · ${summary.runs.length} bugs from ${this.escapeHtml(summary.sourceFile)} ·
+            ${duration} seconds · concurrency ${summary.concurrency}
+        </p>
+
+        <div class="counts">
+            ${statuses.map(status => `
+            <div class="count" style="border-color: ${STATUS_COLORS[status]}">
+                <strong>${summary.counts[status]}</strong>
+                ${status.toUpperCase()}
+            </div>`).join('')}
+        </div>
+
+        <table>
+            <thead>
+                <tr>
+                    <th>#</th>
+                    <th>Bug</th>
+                    <th>Status</th>
+                    <th>Steps</th>
+                    <th>Duration</th>
+                    <th>Report</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${summary.runs.map(run => `
+                <tr>
+                    <td>${run.index}</td>
+                    <td>
+                        ${this.escapeHtml(run.bugDescription)}
+                        <div class="detail">${this.escapeHtml(run.targetUrl)} · ${this.escapeHtml(run.provider)}</div>
+                        ${run.reason || run.error ? `<div class="detail">${this.escapeHtml(run.reason || run.error || '')}</div>` : ''}
+                    </td>
+                    <td><span class="status-badge" style="background: ${STATUS_COLORS[run.status]}20; color: ${STATUS_COLORS[run.status]}">${run.status.toUpperCase()}</span></td>
+                    <td>${run.steps}</td>
+                    <td>${Math.round(run.durationMs / 1000)}s</td>
+                    <td>${run.reportPath ? `<a href="${this.escapeHtml(run.reportPath)}">${this.escapeHtml(run.runId)}</a>` : '—'}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+    </div>
+</body>
+</html>`;
+  }
+
+  private static escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;'
+    };
+    return text.replace(/[&<>"']/g, m => map[m]);
+  }
+}
@@ -0,0 +1,286 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { Orchestrator, OrchestratorConfig } from './orchestrator';
+import { BatchReportGenerator } from './batch-report-generator';
+import { JUnitGenerator } from './junit-generator';
+import { resolveRunConfig } from './run-settings';
+
+/**
+ * One bug report of a batch file. Anything not given falls back to the batch defaults.
+ */
+export interface BatchItem {
+  bugDescription: string;
+  targetUrl?: string;
+  maxSteps?: number;
+  provider?: string;
+  model?: string;
+}
+
+export interface BatchRunResult {
+  index: number;
+  runId: string;
+  bugDescription: string;
+  targetUrl: string;
+  provider: string;
+  status: 'reproduced' | 'failed' | 'inconclusive' | 'timeout' | 'error';
+  reason?: string;
+  /** Set when the run could not be started or crashed */
+  error?: string;
+  steps: number;
+  durationMs: number;
+  /** Path of the run's HTML report, relative to the batch directory */
+  reportPath?: string;
+  /** Path of the run's JSON report, relative to the batch directory */
+  jsonReportPath?: string;
+}
+
+export interface BatchSummary {
+  batchId: string;
+  sourceFile: string;
+  startedAt: string;
+  endedAt: string;
+  concurrency: number;
+  counts: Record<BatchRunResult['status'], number>;
+  runs: BatchRunResult[];
+}
+
+export interface BatchOptions {
+  batchId: string;
+  sourceFile: string;
+  concurrency: number;
+  /** Resolves the API key for a provider, so items can use a different provider than the batch */
+  apiKeyFor: (provider: string) => string | undefined;
+}
+
+/** Column names accepted in CSV headers and JSON objects for each `BatchItem` field */
+const FIELD_ALIASES: Record<keyof BatchItem, string[]> = {
+  bugDescription: ['bugdescription', 'bug_description', 'description', 'bug', 'title'],
+  targetUrl: ['targeturl', 'target_url', 'url'],
+  maxSteps: ['maxsteps', 'max_steps', 'steps'],
+  provider: ['provider'],
+  model: ['model']
+};
+
+/**
+ * Reads a batch file: a JSON array, JSONL (one object or string per line) or a CSV
+ * file with a header row. Items are bug description strings or objects with
+ * `bugDescription` and optional `targetUrl`, `maxSteps`, `provider` and `model`.
+ */
+export async function loadBatchFile(filePath: string): Promise<BatchItem[]> {
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`Batch file not found: ${filePath}`);
+  }
+  const content = (await fs.readFile(filePath, 'utf-8')).trim();
+  const extension = path.extname(filePath).toLowerCase();
+
+  let records: unknown[];
+  if (extension === '.csv') {
+    records = parseCsv(content);
+  } else if (content.startsWith('[')) {
+    records = JSON.parse(content);
+  } else {
+    records = content.split('\n').filter(line => line.trim()).map((line, idx) => {
+      try {
+        return JSON.parse(line);
+      } catch (error: any) {
+        throw new Error(`Invalid JSON on line ${idx + 1} of ${filePath}: ${error.message}`);
+      }
+    });
+  }
+
+  return records.map((record, idx) => toBatchItem(record, idx + 1));
+}
+
+function toBatchItem(record: unknown, position: number): BatchItem {
+  if (typeof record === 'string') {
+    return { bugDescription: record };
+  }
+  if (!record || typeof record !== 'object') {
+    throw new Error(`Batch item ${position} must be a string or an object`);
+  }
+
+  const fields = Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key.toLowerCase().trim(), value])
+  );
+  const field = (name: keyof BatchItem): string | undefined => {
+    const key = FIELD_ALIASES[name].find(alias => fields[alias] !== undefined && fields[alias] !== '');
+    return key === undefined ? undefined : String(fields[key]).trim();
+  };
+
+  const bugDescription = field('bugDescription');
+  if (!bugDescription) {
+    throw new Error(`Batch item ${position} has no bug description`);
+  }
+  const maxSteps = field('maxSteps');
+  if (maxSteps !== undefined && !(parseInt(maxSteps) > 0)) {
+    throw new Error(`Batch item ${position} has an invalid max steps value: ${maxSteps}`);
+  }
+
+  return {
+    bugDescription,
+    targetUrl: field('targetUrl'),
+    maxSteps: maxSteps !== undefined ? parseInt(maxSteps) : undefined,
+    provider: field('provider'),
+    model: field('model')
+  };
+}
+
+/**
+ * Parses CSV with a header row into one object per line. Supports quoted fields
+ * containing commas, newlines and doubled quotes.
+ */
+function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  row.push(value);
+  rows.push(row);
+
+  const [header, ...lines] = rows.filter(r => r.some(cell => cell.trim()));
+  if (!header) {
+    return [];
+  }
+  return lines.map(cells => Object.fromEntries(header.map((name, idx) => [name, cells[idx] ?? ''])));
+}
+
+/**
+ * Reproduces a list of bug reports with a bounded number of concurrent runs, each
+ * in its own runner session, and writes an index linking to every run's report.
+ */
+export class BatchRunner {
+  private items: BatchItem[];
+  private defaults: Omit<OrchestratorConfig, 'bugDescription'>;
+  private options: BatchOptions;
+  private batchDir: string;
+
+  constructor(items: BatchItem[], defaults: Omit<OrchestratorConfig, 'bugDescription'>, options: BatchOptions) {
+    this.items = items;
+    this.defaults = defaults;
+    this.options = options;
+    this.batchDir = path.join(process.cwd(), 'runs', options.batchId);
+  }
+
+  getBatchDir(): string {
+    return this.batchDir;
+  }
+
+  async run(): Promise<BatchSummary> {
+    const startedAt = new Date();
+    const results: BatchRunResult[] = new Array(this.items.length);
+    let next = 0;
+
+    // Each worker takes the next pending item until none are left
+    const worker = async () => {
+      while (next < this.items.length) {
+        const index = next++;
+        results[index] = await this.runItem(index);
+      }
+    };
+    const workers = Math.max(1, Math.min(this.options.concurrency, this.items.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    const counts: BatchSummary['counts'] = { reproduced: 0, failed: 0, inconclusive: 0, timeout: 0, error: 0 };
+    results.forEach(result => counts[result.status]++);
+
+    const summary: BatchSummary = {
+      batchId: this.options.batchId,
+      sourceFile: this.options.sourceFile,
+      startedAt: startedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      concurrency: workers,
+      counts,
+      runs: results
+    };
+
+    await fs.ensureDir(this.batchDir);
+    await fs.writeJSON(path.join(this.batchDir, 'index.json'), summary, { spaces: 2 });
+    await fs.writeFile(path.join(this.batchDir, 'index.html'), BatchReportGenerator.generateHTML(summary));
+    await fs.writeFile(path.join(this.batchDir, 'junit.xml'), this.generateJUnit(summary));
+    return summary;
+  }
+
+  /**
+   * JUnit XML for the batch, one test case per bug report, with absolute report paths.
+   */
+  generateJUnit(summary: BatchSummary): string {
+    const testCases = summary.runs.map(run => JUnitGenerator.fromBatchRun({
+      ...run,
+      reportPath: run.reportPath && path.join(this.batchDir, run.reportPath)
+    }));
+    return JUnitGenerator.generate(summary.batchId, testCases, new Date(summary.startedAt));
+  }
+
+  private async runItem(index: number): Promise<BatchRunResult> {
+    const item = this.items[index];
+    const runId = `${this.options.batchId}-${String(index + 1).padStart(3, '0')}`;
+    const { bugDescription, ...settings } = item;
+    const config = resolveRunConfig(this.defaults, settings, bugDescription, this.options.apiKeyFor);
+    const provider = config.provider!;
+    const label = `[${index + 1}/${this.items.length}]`;
+    const start = Date.now();
+    const result: BatchRunResult = {
+      index: index + 1,
+      runId,
+      bugDescription: item.bugDescription,
+      targetUrl: config.targetUrl,
+      provider,
+      status: 'error',
+      steps: 0,
+      durationMs: 0
+    };
+
+    console.log(chalk.cyan(`${label} Starting ${runId}: ${item.bugDescription}`));
+    let orchestrator: Orchestrator | null = null;
+    try {
+      orchestrator = new Orchestrator(config, runId);
+      await orchestrator.initialize();
+      const report = await orchestrator.execute();
+
+      // A run stopped by an error (runner down, browser crash) isn't a failed reproduction
+      result.status = report.error ? 'error' : report.status;
+      result.error = report.error;
+      result.reason = report.reason;
+      result.steps = report.steps.length;
+      result.reportPath = path.relative(this.batchDir, report.artifacts.reportPath);
+      result.jsonReportPath = path.relative(this.batchDir, report.artifacts.jsonReportPath);
+    } catch (error: any) {
+      result.error = error.message;
+      // execute() closes the browser itself; a failed initialize() may leave it open
+      await orchestrator?.close().catch(() => {});
+    }
+    result.durationMs = Date.now() - start;
+
+    const color = result.status === 'reproduced' ? chalk.green : result.status === 'error' ? chalk.red : chalk.yellow;
+    console.log(color(`${label} ${result.status.toUpperCase()} ${runId}${result.error ? `: ${result.error}` : ''}`));
+    return result;
+  }
+}
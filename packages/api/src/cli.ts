@@ -4,10 +4,183 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { spawn } from 'child_process';
 import axios from 'axios';
+import { getProviderDefinition, listProviders, resolveApiKey } from '@bugbot/agent';
 import { Orchestrator } from './orchestrator';
+import { Replayer } from './replayer';
+import { BatchRunner, loadBatchFile } from './batch-runner';
+import { JUnitGenerator } from './junit-generator';
+import { ReportGenerator } from './report-generator';
+import { RunQueue } from './run-queue';
+import { JobStore } from './job-store';
+import { createServer } from './server';
+import { WebhookConfig, loadWebhookConfig } from './webhooks';
+import { createResultPublishers, publishRunResult } from './publishers';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 
+/** Accumulates the values of a repeatable option */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Makes sure a runner server is listening at `runnerUrl`, starting one in the background if needed.
+ * Backend log sources can only be given to a runner this starts; a running one keeps its own.
+ */
+async function ensureRunnerServer(runnerUrl: string, backendLogSources: string[] = []): Promise<void> {
+  const port = parseInt(new URL(runnerUrl).port) || 3001;
+  let serverNeedsStart = false;
+  
+  try {
+    await axios.get(`${runnerUrl}/health`, { timeout: 2000 });
+    console.log(chalk.green('✓ Runner server already running'));
+    if (backendLogSources.length > 0) {
+      console.log(chalk.yellow('--backend-log is ignored: the runner is already running. Set BACKEND_LOG_SOURCES when starting it instead.'));
+    }
+  } catch (error: any) {
+    // Check if port is in use
+    const net = require('net');
+    const portInUse = await new Promise<boolean>((resolve) => {
+      const tester = net.createServer()
+        .once('error', (err: any) => {
+          resolve(err.code === 'EADDRINUSE');
+        })
+        .once('listening', () => {
+          tester.once('close', () => resolve(false)).close();
+        })
+        .listen(port);
+    });
+
+    if (portInUse) {
+      console.log(chalk.yellow(`Port ${port} is in use. Attempting to use existing server...`));
+      // Try one more time with a longer timeout
+      try {
+        await axios.get(`${runnerUrl}/health`, { timeout: 5000 });
+        console.log(chalk.green('✓ Connected to existing server'));
+        serverNeedsStart = false;
+      } catch (e) {
+        // Try to find and kill the process
+        const { execSync } = require('child_process');
+        try {
+          const pid = execSync(`lsof -ti:${port}`, { encoding: 'utf-8' }).trim();
+          if (pid) {
+            console.log(chalk.yellow(`Found process ${pid} using port ${port}. Killing it...`));
+            execSync(`kill -9 ${pid}`);
+            await new Promise(resolve => setTimeout(resolve, 1000)); // Wait for port to free
+            serverNeedsStart = true;
+          }
+        } catch (killError: any) {
+          console.log(chalk.red(`Port ${port} is in use but server is not responding.`));
+          console.log(chalk.yellow(`Please kill the process manually or use a different port:`));
+          console.log(chalk.gray(`  lsof -ti:${port} | xargs kill -9`));
+          console.log(chalk.gray(`  Or use: --runner-url http://localhost:3002`));
+          throw new Error(`Port ${port} is in use and server is not responding`);
+        }
+      }
+    } else {
+      serverNeedsStart = true;
+    }
+  }
+  
+  if (serverNeedsStart) {
+    console.log(chalk.yellow('Starting runner server...'));
+    
+    // Determine if we're running from compiled code or source
+    const isCompiled = __dirname.includes('dist');
+    let runnerPath: string;
+    let command: string;
+    let args: string[];
+    
+    if (isCompiled) {
+      // Running from dist - use compiled server
+      runnerPath = path.resolve(__dirname, '../../runner/dist/server.js');
+      command = 'node';
+      args = [runnerPath];
+    } else {
+      // Running from source - use tsx
+      runnerPath = path.resolve(__dirname, '../../runner/src/server.ts');
+      command = 'npx';
+      args = ['tsx', runnerPath];
+    }
+    
+    const projectRoot = path.resolve(__dirname, '../../..');
+    
+    // Verify the server file exists
+    const fs = require('fs');
+    if (!fs.existsSync(runnerPath)) {
+      throw new Error(`Runner server file not found at: ${runnerPath}`);
+    }
+    
+    console.log(chalk.gray(`Starting server: ${command} ${args.join(' ')}`));
+    console.log(chalk.gray(`Working directory: ${projectRoot}`));
+    
+    // Start runner server in background with error logging
+    const runnerProcess = spawn(command, args, {
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: {
+        ...process.env,
+        PORT: port.toString(),
+        ...(backendLogSources.length > 0 ? { BACKEND_LOG_SOURCES: backendLogSources.join(';') } : {})
+      },
+      cwd: projectRoot
+    });
+    
+    // Log server output for debugging
+    let serverOutput = '';
+    runnerProcess.stdout?.on('data', (data) => {
+      const output = data.toString().trim();
+      serverOutput += output + '\n';
+      if (output) console.log(chalk.gray(`[Runner] ${output}`));
+    });
+    
+    runnerProcess.stderr?.on('data', (data) => {
+      const output = data.toString().trim();
+      serverOutput += output + '\n';
+      if (output && !output.includes('ExperimentalWarning')) {
+        console.error(chalk.red(`[Runner Error] ${output}`));
+      }
+    });
+    
+    runnerProcess.on('error', (err) => {
+      console.error(chalk.red(`Failed to start runner server: ${err.message}`));
+      console.error(chalk.red(`Command: ${command} ${args.join(' ')}`));
+      console.error(chalk.red(`Path: ${runnerPath}`));
+      throw err;
+    });
+    
+    runnerProcess.on('exit', (code) => {
+      if (code !== null && code !== 0) {
+        console.error(chalk.red(`Runner server exited with code ${code}`));
+        console.error(chalk.red(`Output: ${serverOutput}`));
+      }
+    });
+    
+    // Wait for server to start with more retries
+    let retries = 20; // Increased retries (10 seconds total)
+    let serverStarted = false;
+    
+    while (retries > 0) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      try {
+        await axios.get(`${runnerUrl}/health`, { timeout: 1000 });
+        serverStarted = true;
+        console.log(chalk.green('✓ Runner server started'));
+        break;
+      } catch (e: any) {
+        retries--;
+        if (retries === 0) {
+          runnerProcess.kill('SIGTERM');
+          throw new Error(`Runner server failed to start after 10 seconds. Make sure port 3001 is available. Server output: ${serverOutput}`);
+        }
+      }
+    }
+    
+    // Keep process reference to prevent it from being killed
+    runnerProcess.unref();
+  }
+}
+
 const program = new Command();
 
 program
@@ -18,198 +191,77 @@ program
   .option('-u, --url <url>', 'Target URL to test', 'http://localhost:3000')
   .option('-r, --runner-url <url>', 'Runner server URL', 'http://localhost:3001')
   .option('-s, --max-steps <number>', 'Maximum steps to take', '20')
-  .option('-t, --timeout <seconds>', 'Timeout in seconds', '300')
+  .option('-t, --timeout <seconds>', 'Timeout in seconds for the whole run', '300')
+  .option('--step-timeout <seconds>', 'Timeout in seconds for a single step', '120')
+  .option('--request-timeout <seconds>', 'Timeout in seconds for a single runner request, including page loads', '60')
   .option('--headless', 'Run browser in headless mode', false)
-  .option('--api-key <key>', 'API key (or set GEMINI_API_KEY or OPENAI_API_KEY env var)')
-  .option('--provider <provider>', 'LLM provider: gemini or openai', 'gemini')
+  .option('--api-key <key>', 'API key (or set the provider\'s env var, e.g. GEMINI_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY)')
+  .option('--provider <provider>', `LLM provider: ${listProviders().join(', ')}`, 'gemini')
+  .option('--model <model>', 'Model name (defaults to the provider\'s default model)')
+  .option('--base-url <url>', 'Base URL for OpenAI-compatible or self-hosted providers (e.g. Ollama)')
+  .option('--script <file>', 'JSON/JSONL file of canned agent responses for the scripted provider')
+  .option('--vision', 'Send the step screenshot to the model (requires a multimodal model)', false)
+  .option('--annotate-screenshots', 'With --vision, draw numbered boxes around page elements on the screenshot', false)
+  .option('--prompt-budget <tokens>', 'Size limit of each step prompt, in estimated tokens (defaults to the provider\'s; 8000 for most)')
+  .option('--junit <file>', 'Also write the result as JUnit XML to this file')
+  .option('--no-verify', 'Report claimed reproductions without checking them with a separate verifier call')
+  .option('--backend-log <source>', 'Backend log source for a runner this starts, repeatable: inspector[:host:port], file:<path>, process:<command> or syslog[:host:port]', collect, [])
   .option('--verbose', 'Show detailed LLM and interaction logs', false)
   .action(async (bugDescription, options) => {
     console.log(chalk.blue.bold('\n🤖 BugBot - Autonomous Bug Reproduction System\n'));
 
     // Check if runner server is running
     const runnerUrl = options.runnerUrl || 'http://localhost:3001';
-    const port = parseInt(new URL(runnerUrl).port) || 3001;
-    let serverNeedsStart = false;
-    
-    try {
-      await axios.get(`${runnerUrl}/health`, { timeout: 2000 });
-      console.log(chalk.green('✓ Runner server already running'));
-    } catch (error: any) {
-      // Check if port is in use
-      const net = require('net');
-      const portInUse = await new Promise<boolean>((resolve) => {
-        const tester = net.createServer()
-          .once('error', (err: any) => {
-            resolve(err.code === 'EADDRINUSE');
-          })
-          .once('listening', () => {
-            tester.once('close', () => resolve(false)).close();
-          })
-          .listen(port);
-      });
-
-      if (portInUse) {
-        console.log(chalk.yellow(`Port ${port} is in use. Attempting to use existing server...`));
-        // Try one more time with a longer timeout
-        try {
-          await axios.get(`${runnerUrl}/health`, { timeout: 5000 });
-          console.log(chalk.green('✓ Connected to existing server'));
-          serverNeedsStart = false;
-        } catch (e) {
-          // Try to find and kill the process
-          const { execSync } = require('child_process');
-          try {
-            const pid = execSync(`lsof -ti:${port}`, { encoding: 'utf-8' }).trim();
-            if (pid) {
-              console.log(chalk.yellow(`Found process ${pid} using port ${port}. Killing it...`));
-              execSync(`kill -9 ${pid}`);
-              await new Promise(resolve => setTimeout(resolve, 1000)); // Wait for port to free
-              serverNeedsStart = true;
-            }
-          } catch (killError: any) {
-            console.log(chalk.red(`Port ${port} is in use but server is not responding.`));
-            console.log(chalk.yellow(`Please kill the process manually or use a different port:`));
-            console.log(chalk.gray(`  lsof -ti:${port} | xargs kill -9`));
-            console.log(chalk.gray(`  Or use: --runner-url http://localhost:3002`));
-            throw new Error(`Port ${port} is in use and server is not responding`);
-          }
-        }
-      } else {
-        serverNeedsStart = true;
-      }
-    }
-    
-    if (serverNeedsStart) {
-      console.log(chalk.yellow('Starting runner server...'));
-      
-      // Determine if we're running from compiled code or source
-      const isCompiled = __dirname.includes('dist');
-      let runnerPath: string;
-      let command: string;
-      let args: string[];
-      
-      if (isCompiled) {
-        // Running from dist - use compiled server
-        runnerPath = path.resolve(__dirname, '../../runner/dist/server.js');
-        command = 'node';
-        args = [runnerPath];
-      } else {
-        // Running from source - use tsx
-        runnerPath = path.resolve(__dirname, '../../runner/src/server.ts');
-        command = 'npx';
-        args = ['tsx', runnerPath];
-      }
-      
-      const projectRoot = path.resolve(__dirname, '../../..');
-      
-      // Verify the server file exists
-      const fs = require('fs');
-      if (!fs.existsSync(runnerPath)) {
-        throw new Error(`Runner server file not found at: ${runnerPath}`);
-      }
-      
-      console.log(chalk.gray(`Starting server: ${command} ${args.join(' ')}`));
-      console.log(chalk.gray(`Working directory: ${projectRoot}`));
-      
-      // Start runner server in background with error logging
-      const runnerProcess = spawn(command, args, {
-        detached: true,
-        stdio: ['ignore', 'pipe', 'pipe'],
-        env: { ...process.env, PORT: port.toString() },
-        cwd: projectRoot
-      });
-      
-      // Log server output for debugging
-      let serverOutput = '';
-      runnerProcess.stdout?.on('data', (data) => {
-        const output = data.toString().trim();
-        serverOutput += output + '\n';
-        if (output) console.log(chalk.gray(`[Runner] ${output}`));
-      });
-      
-      runnerProcess.stderr?.on('data', (data) => {
-        const output = data.toString().trim();
-        serverOutput += output + '\n';
-        if (output && !output.includes('ExperimentalWarning')) {
-          console.error(chalk.red(`[Runner Error] ${output}`));
-        }
-      });
-      
-      runnerProcess.on('error', (err) => {
-        console.error(chalk.red(`Failed to start runner server: ${err.message}`));
-        console.error(chalk.red(`Command: ${command} ${args.join(' ')}`));
-        console.error(chalk.red(`Path: ${runnerPath}`));
-        throw err;
-      });
-      
-      runnerProcess.on('exit', (code) => {
-        if (code !== null && code !== 0) {
-          console.error(chalk.red(`Runner server exited with code ${code}`));
-          console.error(chalk.red(`Output: ${serverOutput}`));
-        }
-      });
-      
-      // Wait for server to start with more retries
-      let retries = 20; // Increased retries (10 seconds total)
-      let serverStarted = false;
-      
-      while (retries > 0) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        try {
-          await axios.get(`${runnerUrl}/health`, { timeout: 1000 });
-          serverStarted = true;
-          console.log(chalk.green('✓ Runner server started'));
-          break;
-        } catch (e: any) {
-          retries--;
-          if (retries === 0) {
-            runnerProcess.kill('SIGTERM');
-            throw new Error(`Runner server failed to start after 10 seconds. Make sure port 3001 is available. Server output: ${serverOutput}`);
-          }
-        }
-      }
-      
-      // Keep process reference to prevent it from being killed
-      runnerProcess.unref();
-    }
+    await ensureRunnerServer(runnerUrl, options.backendLog);
 
     const runId = `run-${Date.now()}`;
     console.log(chalk.gray(`Run ID: ${runId}\n`));
 
     // Determine provider and API key
-    const provider = (options.provider === 'openai' ? 'openai' : 'gemini') as 'openai' | 'gemini';
-    const apiKey = options.apiKey || 
-      (provider === 'gemini' ? process.env.GEMINI_API_KEY : process.env.OPENAI_API_KEY) ||
-      process.env.GEMINI_API_KEY || 
-      process.env.OPENAI_API_KEY;
+    const provider: string = options.provider;
+    const providerDefinition = getProviderDefinition(provider);
+    if (!providerDefinition) {
+      console.error(chalk.red(`\n❌ Unknown provider "${provider}". Available providers: ${listProviders().join(', ')}\n`));
+      process.exit(1);
+    }
+    const apiKey = resolveApiKey(provider, options.apiKey);
 
     // Debug: log what we received (remove in production)
     if (process.env.DEBUG) {
       console.log(chalk.gray(`Debug - options.apiKey: ${options.apiKey ? 'provided' : 'not provided'}`));
-      console.log(chalk.gray(`Debug - GEMINI_API_KEY: ${process.env.GEMINI_API_KEY ? 'set' : 'not set'}`));
+      console.log(chalk.gray(`Debug - API key env vars: ${providerDefinition.apiKeyEnv.map(env => `${env}=${process.env[env] ? 'set' : 'not set'}`).join(', ') || 'none'}`));
       console.log(chalk.gray(`Debug - Provider: ${provider}`));
     }
 
-    if (!apiKey) {
-      console.error(chalk.red(`\n❌ API key required. Set GEMINI_API_KEY or OPENAI_API_KEY environment variable, or use --api-key flag.\n`));
+    if (providerDefinition.requiresApiKey && !apiKey) {
+      console.error(chalk.red(`\n❌ API key required. Set ${providerDefinition.apiKeyEnv.join(' or ')} environment variable, or use --api-key flag.\n`));
       console.error(chalk.yellow(`Tip: When using npm run, use -- to separate arguments:\n`));
       console.error(chalk.gray(`  npm run bugbot -- "bug description" --api-key YOUR_KEY\n`));
       process.exit(1);
     }
 
-    const orchestrator = new Orchestrator({
-      runnerUrl,
-      targetUrl: options.url,
-      bugDescription,
-      maxSteps: parseInt(options.maxSteps),
-      timeout: parseInt(options.timeout) * 1000,
-      apiKey,
-      provider,
-      headless: options.headless,
-      verbose: options.verbose || false
-    }, runId);
-
     try {
+      const orchestrator = new Orchestrator({
+        runnerUrl,
+        targetUrl: options.url,
+        bugDescription,
+        maxSteps: parseInt(options.maxSteps),
+        timeout: parseInt(options.timeout) * 1000,
+        stepTimeout: parseInt(options.stepTimeout) * 1000,
+        requestTimeout: parseInt(options.requestTimeout) * 1000,
+        apiKey,
+        provider,
+        model: options.model,
+        baseUrl: options.baseUrl,
+        scriptPath: options.script,
+        vision: options.vision,
+        annotateScreenshots: options.annotateScreenshots,
+        promptTokenBudget: options.promptBudget ? parseInt(options.promptBudget) : undefined,
+        verify: options.verify,
+        headless: options.headless,
+        verbose: options.verbose || false
+      }, runId);
+
       console.log(chalk.cyan('Initializing browser...'));
       await orchestrator.initialize();
       
@@ -227,10 +279,21 @@ program
       const reportPath = path.join(process.cwd(), 'runs', runId, 'report.html');
       console.log(chalk.blue(`📊 Report: ${reportPath}\n`));
 
+      if (options.junit) {
+        const testCase = JUnitGenerator.fromReport(ReportGenerator.generateJSON(report));
+        await fs.outputFile(path.resolve(options.junit), JUnitGenerator.generate(runId, [testCase], report.startTime));
+        console.log(chalk.blue(`🧪 JUnit: ${path.resolve(options.junit)}\n`));
+      }
+
       if (report.status === 'reproduced') {
         console.log(chalk.green('🎉 Bug was successfully reproduced!'));
+      } else if (report.status === 'inconclusive') {
+        console.log(chalk.cyan('❔ The run claimed a reproduction, but the verifier found the evidence insufficient.'));
       } else if (report.status === 'timeout') {
         console.log(chalk.yellow('⏱️  Test timed out before completion.'));
+        if (report.timeout) {
+          console.log(chalk.yellow(`   ${report.timeout.limit} timeout (${Math.round(report.timeout.timeoutMs / 1000)}s) hit during ${report.timeout.phase || 'setup'}`));
+        }
       } else {
         console.log(chalk.red('❌ Bug reproduction failed.'));
       }
@@ -240,5 +303,275 @@ program
     }
   });
 
+program
+  .command('replay')
+  .description('Re-execute a recorded run without the LLM and check whether the same outcome happens')
+  .argument('<run-dir>', 'Run directory containing steps.json (e.g. runs/run-1234567890)')
+  .option('-u, --url <url>', 'Override the target URL recorded in the run')
+  .option('-r, --runner-url <url>', 'Runner server URL', 'http://localhost:3001')
+  .option('--headed', 'Show the browser while replaying', false)
+  .option('--verbose', 'Show each replayed step', false)
+  .action(async (runDir, options) => {
+    console.log(chalk.blue.bold('\n🔁 BugBot - Replay\n'));
+
+    try {
+      const resolvedRunDir = path.resolve(runDir);
+      const stepLog = await Replayer.load(resolvedRunDir);
+      await ensureRunnerServer(options.runnerUrl);
+
+      console.log(chalk.gray(`Run ID: ${stepLog.runId}`));
+      console.log(chalk.cyan(`Bug: ${stepLog.bugDescription}`));
+      console.log(chalk.cyan(`Recorded status: ${stepLog.outcome.status.toUpperCase()}\n`));
+
+      const replayer = new Replayer(stepLog, {
+        runnerUrl: options.runnerUrl,
+        targetUrl: options.url,
+        headless: !options.headed,
+        verbose: options.verbose
+      });
+      const result = await replayer.replay();
+
+      const resultPath = path.join(resolvedRunDir, `replay-${Date.now()}.json`);
+      await fs.writeJSON(resultPath, result, { spaces: 2 });
+
+      const failedSteps = result.steps.filter(step => !step.success);
+      console.log(chalk.white(`\nReplayed steps: ${result.steps.length} (${failedSteps.length} failed)`));
+      failedSteps.forEach(step => {
+        console.log(chalk.red(`  Step ${step.stepNumber}: ${step.error}`));
+      });
+
+      if (result.sameOutcome) {
+        console.log(chalk.green.bold('\n🎯 Same outcome: the recorded behaviour still happens.'));
+        const { expected } = result;
+        if (expected.consoleErrors.length === 0 && expected.failedRequests.length === 0 && expected.lastActionChangedPage !== false) {
+          console.log(chalk.gray('   The recorded run had no console errors, failed requests or no-op actions to compare; check the page manually.'));
+        }
+      } else {
+        console.log(chalk.yellow.bold('\n🔀 Different outcome: the recorded behaviour did not happen again.'));
+        result.missingSignals.forEach(signal => {
+          console.log(chalk.yellow(`  Missing ${signal}`));
+        });
+      }
+      console.log(chalk.blue(`\n📄 Replay result: ${resultPath}\n`));
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error.message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('batch')
+  .description('Reproduce every bug report in a JSON, JSONL or CSV file, several at a time')
+  .argument('<file>', 'Bug reports: descriptions, or objects/rows with bugDescription and optional targetUrl, maxSteps, provider, model')
+  .option('-u, --url <url>', 'Target URL for reports that don\'t set one', 'http://localhost:3000')
+  .option('-r, --runner-url <url>', 'Runner server URL', 'http://localhost:3001')
+  .option('-s, --max-steps <number>', 'Maximum steps for reports that don\'t set them', '20')
+  .option('-t, --timeout <seconds>', 'Timeout in seconds per report', '300')
+  .option('--step-timeout <seconds>', 'Timeout in seconds for a single step', '120')
+  .option('--request-timeout <seconds>', 'Timeout in seconds for a single runner request, including page loads', '60')
+  .option('-c, --concurrency <number>', 'Number of reports to run at the same time', '2')
+  .option('--headed', 'Show the browsers while running', false)
+  .option('--api-key <key>', 'API key for the default provider (other providers use their env vars)')
+  .option('--provider <provider>', `Default LLM provider: ${listProviders().join(', ')}`, 'gemini')
+  .option('--model <model>', 'Model name for the default provider')
+  .option('--base-url <url>', 'Base URL for OpenAI-compatible or self-hosted providers (e.g. Ollama)')
+  .option('--script <file>', 'JSON/JSONL file of canned agent responses for the scripted provider')
+  .option('--prompt-budget <tokens>', 'Size limit of each step prompt, in estimated tokens (defaults to the provider\'s; 8000 for most)')
+  .option('--junit <file>', 'Also write the JUnit XML summary to this file (it is always written to the batch directory)')
+  .option('--no-verify', 'Report claimed reproductions without checking them with a separate verifier call')
+  .option('--backend-log <source>', 'Backend log source for a runner this starts, repeatable: inspector[:host:port], file:<path>, process:<command> or syslog[:host:port]', collect, [])
+  .option('--verbose', 'Show detailed LLM and interaction logs', false)
+  .action(async (file, options) => {
+    console.log(chalk.blue.bold('\n📚 BugBot - Batch\n'));
+
+    try {
+      const items = await loadBatchFile(path.resolve(file));
+      if (items.length === 0) {
+        throw new Error(`No bug reports found in ${file}`);
+      }
+
+      const apiKeyFor = (provider: string) =>
+        resolveApiKey(provider, provider === options.provider ? options.apiKey : undefined);
+
+      // Check every provider up front rather than failing halfway through the batch
+      const providers = new Set([options.provider, ...items.map(item => item.provider).filter(Boolean) as string[]]);
+      for (const provider of providers) {
+        const definition = getProviderDefinition(provider);
+        if (!definition) {
+          throw new Error(`Unknown provider "${provider}". Available providers: ${listProviders().join(', ')}`);
+        }
+        if (definition.requiresApiKey && !apiKeyFor(provider)) {
+          throw new Error(`API key required for ${provider}. Set ${definition.apiKeyEnv.join(' or ')} environment variable${provider === options.provider ? ', or use --api-key flag' : ''}.`);
+        }
+      }
+
+      await ensureRunnerServer(options.runnerUrl, options.backendLog);
+
+      const batchId = `batch-${Date.now()}`;
+      const concurrency = Math.max(1, parseInt(options.concurrency) || 1);
+      console.log(chalk.gray(`Batch ID: ${batchId}`));
+      console.log(chalk.cyan(`Reproducing ${items.length} bug reports, ${concurrency} at a time\n`));
+
+      const batch = new BatchRunner(items, {
+        runnerUrl: options.runnerUrl,
+        targetUrl: options.url,
+        maxSteps: parseInt(options.maxSteps),
+        timeout: parseInt(options.timeout) * 1000,
+        stepTimeout: parseInt(options.stepTimeout) * 1000,
+        requestTimeout: parseInt(options.requestTimeout) * 1000,
+        provider: options.provider,
+        model: options.model,
+        baseUrl: options.baseUrl,
+        scriptPath: options.script,
+        promptTokenBudget: options.promptBudget ? parseInt(options.promptBudget) : undefined,
+        verify: options.verify,
+        headless: !options.headed,
+        verbose: options.verbose
+      }, {
+        batchId,
+        sourceFile: path.resolve(file),
+        concurrency,
+        apiKeyFor
+      });
+      const summary = await batch.run();
+
+      console.log(chalk.green.bold('\n✅ Batch Complete!\n'));
+      console.log(chalk.white(`Reproduced: ${summary.counts.reproduced}`));
+      console.log(chalk.white(`Failed: ${summary.counts.failed}`));
+      console.log(chalk.white(`Inconclusive: ${summary.counts.inconclusive}`));
+      console.log(chalk.white(`Timed out: ${summary.counts.timeout}`));
+      console.log(chalk.white(`Errors: ${summary.counts.error}\n`));
+      console.log(chalk.blue(`📊 Index: ${path.join(batch.getBatchDir(), 'index.html')}\n`));
+
+      if (options.junit) {
+        await fs.outputFile(path.resolve(options.junit), batch.generateJUnit(summary));
+        console.log(chalk.blue(`🧪 JUnit: ${path.resolve(options.junit)}\n`));
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error.message}\n`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('serve')
+  .description('Run the BugBot service, which queues reproductions requested over its runs API or delivered by a webhook')
+  .option('-p, --port <number>', 'Port to listen on', '3100')
+  .option('--api-token <token>', 'Bearer token required by the runs API (default: BUGBOT_API_TOKEN; without one, the API is open)')
+  .option('--webhook-config <file>', 'JSON file of webhook sources (linear, github, generic) and routes from projects and labels to target URLs')
+  .option('-u, --url <url>', 'Target URL for routes that don\'t set one', 'http://localhost:3000')
+  .option('-r, --runner-url <url>', 'Runner server URL', 'http://localhost:3001')
+  .option('-s, --max-steps <number>', 'Maximum steps for routes that don\'t set them', '20')
+  .option('-t, --timeout <seconds>', 'Timeout in seconds per run', '300')
+  .option('--step-timeout <seconds>', 'Timeout in seconds for a single step', '120')
+  .option('--request-timeout <seconds>', 'Timeout in seconds for a single runner request, including page loads', '60')
+  .option('-c, --concurrency <number>', 'Number of runs to execute at the same time', '1')
+  .option('--artifact-base-url <url>', 'URL the runs/ directory is served at, for artifact links in issue comments (e.g. https://bugbot.example.com/runs)')
+  .option('--job-store <file>', 'JSON file recording every run, so queued and interrupted runs resume after a restart', 'runs/jobs.json')
+  .option('--max-attempts <number>', 'Attempts per run before a runner failure (runner down, browser crash) is final', '3')
+  .option('--retry-delay <seconds>', 'Wait before retrying a failed run, doubled for each further retry', '30')
+  .option('--headed', 'Show the browsers while running', false)
+  .option('--api-key <key>', 'API key for the default provider (other providers use their env vars)')
+  .option('--provider <provider>', `Default LLM provider: ${listProviders().join(', ')}`, 'gemini')
+  .option('--model <model>', 'Model name for the default provider')
+  .option('--base-url <url>', 'Base URL for OpenAI-compatible or self-hosted providers (e.g. Ollama)')
+  .option('--script <file>', 'JSON/JSONL file of canned agent responses for the scripted provider')
+  .option('--prompt-budget <tokens>', 'Size limit of each step prompt, in estimated tokens (defaults to the provider\'s; 8000 for most)')
+  .option('--no-verify', 'Report claimed reproductions without checking them with a separate verifier call')
+  .option('--backend-log <source>', 'Backend log source for a runner this starts, repeatable: inspector[:host:port], file:<path>, process:<command> or syslog[:host:port]', collect, [])
+  .option('--verbose', 'Show detailed LLM and interaction logs', false)
+  .action(async (options) => {
+    console.log(chalk.blue.bold('\n🛰️  BugBot - Service\n'));
+
+    try {
+      let webhooks: WebhookConfig | undefined;
+      if (options.webhookConfig) {
+        webhooks = await loadWebhookConfig(path.resolve(options.webhookConfig));
+      }
+
+      const apiKeyFor = (provider: string) =>
+        resolveApiKey(provider, provider === options.provider ? options.apiKey : undefined);
+
+      // Check every provider up front rather than failing each queued run
+      const providers = new Set([options.provider, ...(webhooks?.routes || []).map(route => route.provider).filter(Boolean) as string[]]);
+      for (const provider of providers) {
+        const definition = getProviderDefinition(provider);
+        if (!definition) {
+          throw new Error(`Unknown provider "${provider}". Available providers: ${listProviders().join(', ')}`);
+        }
+        if (definition.requiresApiKey && !apiKeyFor(provider)) {
+          throw new Error(`API key required for ${provider}. Set ${definition.apiKeyEnv.join(' or ')} environment variable${provider === options.provider ? ', or use --api-key flag' : ''}.`);
+        }
+      }
+
+      const publishers = webhooks ? createResultPublishers(webhooks) : new Map();
+      const artifactBaseUrl: string | undefined = options.artifactBaseUrl?.replace(/\/$/, '');
+      const artifactUrl = artifactBaseUrl
+        ? (runId: string, file: string) => `${artifactBaseUrl}/${runId}/${file}`
+        : undefined;
+
+      await ensureRunnerServer(options.runnerUrl, options.backendLog);
+
+      const apiToken: string | undefined = options.apiToken || process.env.BUGBOT_API_TOKEN;
+
+      const store = new JobStore(path.resolve(options.jobStore));
+      const queue = new RunQueue({
+        concurrency: parseInt(options.concurrency) || 1,
+        onFinished: run => publishRunResult(run, publishers, artifactUrl),
+        store,
+        maxAttempts: parseInt(options.maxAttempts) || 1,
+        // A delay that isn't a number (or is negative) falls back to the queue's default
+        retryDelayMs: parseInt(options.retryDelay) >= 0 ? parseInt(options.retryDelay) * 1000 : undefined,
+        apiKeyFor
+      });
+      const resumed = await queue.restore();
+      if (resumed > 0) {
+        console.log(chalk.cyan(`Resuming ${resumed} unfinished run${resumed === 1 ? '' : 's'} from ${store.getPath()}`));
+      }
+      const app = createServer({
+        queue,
+        webhooks,
+        defaults: {
+          runnerUrl: options.runnerUrl,
+          targetUrl: options.url,
+          maxSteps: parseInt(options.maxSteps),
+          timeout: parseInt(options.timeout) * 1000,
+          stepTimeout: parseInt(options.stepTimeout) * 1000,
+          requestTimeout: parseInt(options.requestTimeout) * 1000,
+          provider: options.provider,
+          model: options.model,
+          baseUrl: options.baseUrl,
+          scriptPath: options.script,
+          promptTokenBudget: options.promptBudget ? parseInt(options.promptBudget) : undefined,
+          verify: options.verify,
+          headless: !options.headed,
+          verbose: options.verbose
+        },
+        apiKeyFor,
+        apiToken
+      });
+
+      const port = parseInt(options.port);
+      app.listen(port, () => {
+        console.log(chalk.green(`✓ Listening on port ${port}`));
+        console.log(chalk.gray(`  Runs API at http://localhost:${port}/runs`));
+        if (!apiToken) {
+          console.log(chalk.yellow('  No --api-token, so anyone who can reach the port can start runs'));
+        }
+        if (webhooks) {
+          Object.keys(webhooks.sources).forEach(source => {
+            console.log(chalk.gray(`  POST http://localhost:${port}/webhooks/${source}`));
+          });
+          console.log(chalk.gray(`  ${webhooks.routes.length} route${webhooks.routes.length === 1 ? '' : 's'}`));
+        } else {
+          console.log(chalk.yellow('  No --webhook-config, so no webhooks are accepted'));
+        }
+      });
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error.message}\n`));
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
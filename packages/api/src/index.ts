@@ -1,6 +1,76 @@
 export { Orchestrator } from './orchestrator';
-export { ArtifactManager } from './artifact-manager';
-export { ReportGenerator } from './report-generator';
-export * from './artifact-manager';
-export * from './report-generator';
-
+export { ArtifactManager, ArtifactPaths } from './artifact-manager';
+export { ReportGenerator, ReportData } from './report-generator';
+export { REPORT_SCHEMA_VERSION, JsonReport, JsonReportStep } from './report-schema';
+export { SpecGenerator } from './spec-generator';
+export { Replayer, ReplayOptions, ReplayResult, ReplayStepResult } from './replayer';
+export { RunnerClient, RecordedLocators, DEFAULT_REQUEST_TIMEOUT_MS, isRunnerFailure } from './runner-client';
+export {
+  STEP_LOG_VERSION,
+  StepLog,
+  StepLogEntry,
+  StepObservationSummary,
+  StepBackendLogEntry,
+  RunOutcome,
+  summarizeObservation,
+  diffObservations,
+  pageChanged,
+  correlateBackendLogs,
+  failedRequests,
+  buildOutcome,
+  missingSignals,
+  stripQuery
+} from './step-log';
+export { TimeoutPhase, TimeoutLimit, TimeoutInfo, TimeoutError, RunCancelledError, Deadline, withDeadline } from './timeouts';
+export { TimelineEntry, buildTimeline, isFailedRequest } from './timeline';
+export { VerificationResult, EvidenceSources, collectEvidence } from './verification';
+export { BatchRunner, BatchItem, BatchOptions, BatchRunResult, BatchSummary, loadBatchFile } from './batch-runner';
+export { BatchReportGenerator } from './batch-report-generator';
+export { JUnitGenerator, JUnitTestCase } from './junit-generator';
+export { RunQueue, RunQueueOptions, QueuedRun, QueuedRunStatus } from './run-queue';
+export { JobStore, JobRecord, JobStatus, JobTransition, JOB_STORE_VERSION } from './job-store';
+export { RunSettings, resolveRunConfig } from './run-settings';
+export { RunEventEmitter, RunEvent, RunEventData, RunEventType, RunPhaseStatus, RUN_EVENT_TYPES } from './run-events';
+export { createServer, ServerOptions } from './server';
+export { createRunsRouter, RunsRouterOptions, RunRequest, RunSummary, RunDetails } from './runs-router';
+export {
+  WebhookAdapter,
+  WebhookConfig,
+  WebhookError,
+  WebhookIssue,
+  WebhookParseResult,
+  WebhookRequest,
+  WebhookRoute,
+  WebhookRouterOptions,
+  WebhookRunSettings,
+  WebhookSourceConfig,
+  createWebhookRouter,
+  loadWebhookConfig,
+  matchRoute,
+  issueBugDescription,
+  registerWebhookAdapter,
+  getWebhookAdapter,
+  listWebhookAdapters,
+  resolveWebhookSecret,
+  hmacSha256,
+  signatureMatches,
+  linearAdapter,
+  githubAdapter,
+  genericAdapter
+} from './webhooks';
+export {
+  ResultPublisher,
+  PublisherDefinition,
+  PublishConfig,
+  SourcePublisher,
+  ArtifactUrl,
+  GitHubPublisher,
+  LinearPublisher,
+  registerResultPublisher,
+  getResultPublisherDefinition,
+  createResultPublisher,
+  createResultPublishers,
+  publishRunResult,
+  reproductionSteps,
+  resultComment
+} from './publishers';
@@ -0,0 +1,97 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ArtifactPaths } from './artifact-manager';
+import { OrchestratorConfig } from './orchestrator';
+import { ReportData } from './report-generator';
+import { WebhookIssue } from './webhooks/types';
+
+/** Version of the job store file; bump it when a field is removed, renamed or changes meaning */
+export const JOB_STORE_VERSION = 1;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface JobTransition {
+  status: JobStatus;
+  at: string;
+  attempt: number;
+  /** Why the attempt failed, for transitions out of `running` caused by an error */
+  error?: string;
+}
+
+/**
+ * A run as recorded in the job store. Dates are ISO strings.
+ */
+export interface JobRecord {
+  id: string;
+  /** Run settings, without the API key, which is resolved again when the job runs */
+  config: Omit<OrchestratorConfig, 'apiKey'>;
+  /** Issue the run was queued for, when a webhook queued it */
+  issue?: WebhookIssue;
+  status: JobStatus;
+  /** Attempts started so far */
+  attempts: number;
+  /** Earliest time a queued retry may start */
+  notBefore?: string;
+  transitions: JobTransition[];
+  queuedAt: string;
+  startedAt?: string;
+  endedAt?: string;
+  /** Outcome of the last attempt that produced a report */
+  result?: {
+    status: ReportData['status'];
+    reason?: string;
+    steps: number;
+  };
+  artifacts?: ArtifactPaths;
+  /** Why the job ended in `error`, or the last attempt failed */
+  error?: string;
+}
+
+interface JobStoreFile {
+  version: number;
+  jobs: JobRecord[];
+}
+
+/**
+ * Keeps every job in one JSON file, rewritten atomically (temp file and rename)
+ * on each change, so queued and running jobs survive a crash or restart.
+ * Writes are serialized; the last one always holds the latest state.
+ */
+export class JobStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = path.join(process.cwd(), 'runs', 'jobs.json')) {}
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<JobRecord[]> {
+    if (!await fs.pathExists(this.filePath)) {
+      return [];
+    }
+    let file: JobStoreFile;
+    try {
+      file = await fs.readJSON(this.filePath);
+    } catch (error: any) {
+      throw new Error(`Job store ${this.filePath} is not valid JSON: ${error.message}`);
+    }
+    if (file.version !== JOB_STORE_VERSION || !Array.isArray(file.jobs)) {
+      throw new Error(`Unsupported job store version ${file.version} in ${this.filePath} (expected ${JOB_STORE_VERSION})`);
+    }
+    return file.jobs;
+  }
+
+  save(jobs: JobRecord[]): Promise<void> {
+    const content: JobStoreFile = { version: JOB_STORE_VERSION, jobs };
+    // Serialize now, so later changes to the records don't leak into this write
+    const data = JSON.stringify(content, null, 2);
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      const temp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.ensureDir(path.dirname(this.filePath));
+      await fs.writeFile(temp, data);
+      await fs.rename(temp, this.filePath);
+    });
+    return this.writing;
+  }
+}
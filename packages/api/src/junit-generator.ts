@@ -0,0 +1,94 @@
+import { JsonReport } from './report-schema';
+import { BatchRunResult } from './batch-runner';
+
+/**
+ * One reproduction attempt as a JUnit test case. A reproduced bug passes; a run
+ * that could not reproduce it is a failure, an inconclusive one is skipped, and
+ * a timeout or crash is an error.
+ */
+export interface JUnitTestCase {
+  name: string;
+  runId: string;
+  status: BatchRunResult['status'];
+  durationMs: number;
+  reason?: string;
+  error?: string;
+  reportPath?: string;
+}
+
+export class JUnitGenerator {
+  static generate(suiteName: string, testCases: JUnitTestCase[], timestamp: Date = new Date()): string {
+    const failures = testCases.filter(tc => tc.status === 'failed').length;
+    const errors = testCases.filter(tc => tc.status === 'timeout' || tc.status === 'error').length;
+    const skipped = testCases.filter(tc => tc.status === 'inconclusive').length;
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const totalMs = testCases.reduce((sum, tc) => sum + tc.durationMs, 0);
+
+    const cases = testCases.map(tc => {
+      const body: string[] = [];
+      if (tc.status === 'failed') {
+        body.push(`      <failure message="${this.escapeXml(tc.reason || 'Bug was not reproduced')}" type="not-reproduced"/>`);
+      } else if (tc.status === 'inconclusive') {
+        body.push(`      <skipped message="${this.escapeXml(tc.reason || 'Reproduction could not be verified')}"/>`);
+      } else if (tc.status === 'timeout') {
+        body.push(`      <error message="${this.escapeXml(tc.reason || 'Run timed out')}" type="timeout"/>`);
+      } else if (tc.status === 'error') {
+        body.push(`      <error message="${this.escapeXml(tc.error || 'Run could not be completed')}" type="error"/>`);
+      }
+      const output = [
+        tc.reason && `Reason: ${tc.reason}`,
+        tc.reportPath && `Report: ${tc.reportPath}`
+      ].filter(Boolean).join('\n');
+      if (output) {
+        body.push(`      <system-out>${this.escapeXml(output)}</system-out>`);
+      }
+
+      const open = `    <testcase name="${this.escapeXml(tc.name)}" classname="bugbot.${this.escapeXml(tc.runId)}" time="${seconds(tc.durationMs)}"`;
+      return body.length > 0 ? `${open}>\n${body.join('\n')}\n    </testcase>` : `${open}/>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="bugbot" tests="${testCases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${seconds(totalMs)}">
+  <testsuite name="${this.escapeXml(suiteName)}" tests="${testCases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${seconds(totalMs)}" timestamp="${timestamp.toISOString()}">
+${cases.join('\n')}
+  </testsuite>
+</testsuites>
+`;
+  }
+
+  static fromReport(report: JsonReport): JUnitTestCase {
+    return {
+      name: report.bugDescription,
+      runId: report.runId,
+      status: report.error ? 'error' : report.status,
+      durationMs: report.durationMs,
+      reason: report.reason,
+      error: report.error,
+      reportPath: report.artifacts.htmlReport
+    };
+  }
+
+  static fromBatchRun(run: BatchRunResult): JUnitTestCase {
+    return {
+      name: run.bugDescription,
+      runId: run.runId,
+      status: run.status,
+      durationMs: run.durationMs,
+      reason: run.reason,
+      error: run.error,
+      reportPath: run.reportPath
+    };
+  }
+
+  private static escapeXml(text: string): string {
+    const map: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&apos;'
+    };
+    // Control characters other than tab and newlines aren't allowed in XML 1.0
+    return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '').replace(/[&<>"']/g, m => map[m]);
+  }
+}
@@ -1,9 +1,15 @@
 import axios from 'axios';
-import { BugReproductionAgent, LLMProvider } from '@bugbot/agent';
-import { AgentAction, AgentObservation, AgentHistory } from '@bugbot/agent';
+import { BugReproductionAgent, BugVerifier, LLMProvider } from '@bugbot/agent';
+import { AgentAction, AgentActionType, AgentObservation, AgentHistory, VerificationEvidence, actionTarget, describeAction } from '@bugbot/agent';
+import { DOMDiff, isEmptyDiff } from '@bugbot/runner';
 import { ArtifactManager } from './artifact-manager';
 import { ReportGenerator, ReportData } from './report-generator';
-import * as path from 'path';
+import { SpecGenerator } from './spec-generator';
+import { RunnerClient, isRunnerFailure } from './runner-client';
+import { StepLog, StepLogEntry, STEP_LOG_VERSION, buildOutcome, correlateBackendLogs, diffObservations, summarizeObservation } from './step-log';
+import { Deadline, RunCancelledError, TimeoutError, TimeoutInfo, withDeadline } from './timeouts';
+import { VerificationResult, collectEvidence } from './verification';
+import { RunEventEmitter } from './run-events';
 import * as fs from 'fs-extra';
 import chalk from 'chalk';
 
@@ -57,59 +63,127 @@ export interface OrchestratorConfig {
   targetUrl: string;
   bugDescription: string;
   maxSteps: number;
+  /** Wall-clock budget for the whole run, in ms */
   timeout: number;
+  /** Budget for a single step (observation, LLM call and action), in ms */
+  stepTimeout?: number;
+  /** Limit for a single runner request, in ms */
+  requestTimeout?: number;
   apiKey?: string;
   provider?: LLMProvider;
+  model?: string;
+  /** Base URL for OpenAI-compatible or self-hosted providers */
+  baseUrl?: string;
+  /** Canned responses file for the scripted provider */
+  scriptPath?: string;
+  /** Send the step screenshot to the model along with the text prompt */
+  vision?: boolean;
+  /** Draw numbered boxes around DOM elements on the screenshots sent in vision mode */
+  annotateScreenshots?: boolean;
+  /** Size limit of each step prompt in estimated tokens (default: the provider's) */
+  promptTokenBudget?: number;
+  /**
+   * Check claimed reproductions with a separate verifier call before reporting
+   * them (default: true). Never done for the scripted provider.
+   */
+  verify?: boolean;
   headless?: boolean;
   verbose?: boolean;
 }
 
+const DEFAULT_STEP_TIMEOUT_MS = 120 * 1000;
+
+/** Limit for each part of tearing a run down (final capture, saving the trace, closing the browser) */
+const TEARDOWN_TIMEOUT_MS = 30 * 1000;
+
+/** Actions whose effect the DOM snapshot doesn't show (scroll position, attached files), or that aren't meant to have one */
+const UNOBSERVABLE_ACTIONS = new Set<AgentActionType>(['wait', 'scroll', 'upload']);
+
 export class Orchestrator {
+  /** What happens during `execute()`, as it happens */
+  readonly events = new RunEventEmitter();
   private config: OrchestratorConfig;
   private agent: BugReproductionAgent;
+  private verifier: BugVerifier | null;
   private artifactManager: ArtifactManager;
+  private runner: RunnerClient;
   private runId: string;
-  private history: AgentHistory = { observations: [], actions: [] };
+  private history: AgentHistory = { observations: [], actions: [], outcomes: [] };
+  private stepLog: StepLogEntry[] = [];
+  private cancellation = new AbortController();
 
   constructor(config: OrchestratorConfig, runId: string) {
     this.config = config;
     this.runId = runId;
-    this.agent = new BugReproductionAgent(config.apiKey, config.provider || 'gemini', undefined, config.verbose);
+    this.agent = new BugReproductionAgent(config.apiKey, config.provider || 'gemini', config.model, config.verbose, {
+      baseUrl: config.baseUrl,
+      scriptPath: config.scriptPath,
+      vision: config.vision,
+      annotatedScreenshots: config.vision && config.annotateScreenshots,
+      promptTokenBudget: config.promptTokenBudget
+    });
+    this.verifier = config.verify !== false && config.provider !== 'scripted'
+      ? new BugVerifier(config.apiKey, config.provider || 'gemini', config.model, config.verbose, {
+          baseUrl: config.baseUrl,
+          vision: config.vision
+        })
+      : null;
     this.artifactManager = new ArtifactManager(runId);
+    this.runner = new RunnerClient(config.runnerUrl, config.requestTimeout);
   }
 
   async initialize(): Promise<void> {
     await this.artifactManager.initialize();
     
-    // Initialize browser
-    try {
-      const response = await axios.post(`${this.config.runnerUrl}/init`, {
-        headless: this.config.headless ?? false
-      });
-      
-      if (!response.data.success) {
-        throw new Error('Browser initialization failed');
-      }
-    } catch (error: any) {
-      const errorMsg = error.response?.data?.error || error.message;
-      throw new Error(`Failed to initialize browser: ${errorMsg}. Make sure Playwright browsers are installed: npx playwright install chromium`);
-    }
+    // Initialize browser; navigation happens in execute() so that it counts against the run's timeout
+    await this.runner.init(this.config.headless ?? false);
+  }
 
-    // Navigate to target URL
-    await axios.post(`${this.config.runnerUrl}/navigate`, {
-      url: this.config.targetUrl
-    });
+  /**
+   * Closes the browser session. `execute()` does this itself, so this is only
+   * needed when `initialize()` fails.
+   */
+  async close(): Promise<void> {
+    await this.runner.close(AbortSignal.timeout(TEARDOWN_TIMEOUT_MS));
+  }
+
+  /**
+   * Stops a run in progress at its current phase. `execute()` then finishes as
+   * usual, saving the artifacts and a report of the steps taken so far.
+   */
+  cancel(): void {
+    this.cancellation.abort();
+  }
+
+  /** Steps taken so far, as recorded in the step log */
+  getSteps(): StepLogEntry[] {
+    return this.stepLog;
   }
 
   async execute(): Promise<ReportData> {
     const startTime = new Date();
     let stepNumber = 0;
-    let status: 'reproduced' | 'failed' | 'timeout' = 'failed';
+    let status: ReportData['status'] = 'failed';
+    let reason: string | undefined;
+    let verification: ReportData['verification'];
+    let timeout: TimeoutInfo | undefined;
+    let runError: string | undefined;
+    let retryable = false;
+    const runDeadline = new Deadline('run', this.config.timeout);
+    // Error from the previous step's action, shown to the agent so it can correct it
+    let actionError: string | undefined;
     const steps: ReportData['steps'] = [];
+    this.events.emit(this.runId, 'status', { status: 'running' });
 
     try {
+      // Navigate to target URL
+      await withDeadline('navigation', [runDeadline], signal => this.runner.navigate(this.config.targetUrl, signal), this.cancellation.signal);
+
       while (stepNumber < this.config.maxSteps) {
         stepNumber++;
+        const stepStart = Date.now();
+        const deadlines = [runDeadline, new Deadline('step', this.config.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS)];
+        this.events.emit(this.runId, 'step', { stepNumber, maxSteps: this.config.maxSteps });
 
         if (this.config.verbose) {
           console.log(chalk.bold.cyan(`\n${'═'.repeat(80)}`));
@@ -122,20 +196,41 @@ export class Orchestrator {
           console.log(chalk.gray('📡 Fetching current browser state...'));
         }
         
-        const [domResponse, stateResponse, screenshotResponse] = await Promise.all([
-          axios.get(`${this.config.runnerUrl}/dom`),
-          axios.get(`${this.config.runnerUrl}/state`),
-          axios.get(`${this.config.runnerUrl}/screenshot`).catch(() => ({ data: { screenshot: null } }))
-        ]);
+        const [dom, state, screenshot] = await withDeadline('observation', deadlines, signal => {
+          // An annotated screenshot labels the elements of this DOM, so it is taken once the DOM is in
+          const domRequest = this.runner.getDOM(signal);
+          const screenshotRequest = this.config.vision && this.config.annotateScreenshots
+            ? domRequest.then(() => this.runner.getScreenshot(true, signal))
+            : this.runner.getScreenshot(false, signal);
+          return Promise.all([domRequest, this.runner.getState(signal), screenshotRequest.catch(() => undefined)]);
+        }, this.cancellation.signal);
 
         const observation: AgentObservation = {
-          dom: domResponse.data,
-          state: stateResponse.data,
-          screenshot: screenshotResponse.data.screenshot,
-          stepNumber
+          dom,
+          state,
+          screenshot,
+          stepNumber,
+          actionError
         };
 
+        // What the previous step's action did to the page
+        const previousObservation = this.history.observations[this.history.observations.length - 1];
+        if (previousObservation) {
+          observation.changes = diffObservations(previousObservation, observation);
+          const previousStep = steps[steps.length - 1];
+          if (previousStep?.executed) {
+            previousStep.changes = observation.changes;
+            this.recordPageChange(previousStep.stepNumber, observation.changes);
+          }
+        }
+
         this.history.observations.push(observation);
+        this.events.emit(this.runId, 'observation', {
+          ...summarizeObservation(observation),
+          stepNumber,
+          screenshot,
+          changes: observation.changes
+        });
 
         if (this.config.verbose) {
           console.log(chalk.green(`✓ Browser state captured`));
@@ -151,7 +246,7 @@ export class Orchestrator {
               .filter(e => e.clickable)
               .slice(0, 5)
               .forEach((el, idx) => {
-                console.log(chalk.gray(`    ${idx + 1}. "${el.text || '(no text)'}" [${el.selector}]`));
+                console.log(chalk.gray(`    [${el.id}] "${el.name || el.text || '(no text)'}" [${el.selector}]`));
               });
           }
         }
@@ -161,46 +256,66 @@ export class Orchestrator {
           console.log(chalk.yellow(`\n🤔 Consulting LLM agent...`));
         }
         
-        // SAFETY CHECK: Detect repetitive loops
-        // If the last 2 actions were identical clicks, and we are about to ask again,
-        // we can assume the agent is stuck loop.
-        const lastActions = this.history.actions.slice(-2);
-        if (lastActions.length === 2 && 
-            lastActions[0].type === 'click' && 
-            lastActions[1].type === 'click' &&
-            lastActions[0].selector === lastActions[1].selector) {
-            
-            console.log(chalk.yellow.bold(`\n⚠️  Loop detected: Agent keeps clicking '${lastActions[0].selector}'`));
-            console.log(chalk.green.bold(`🎉  Assuming bug is reproduced (action has no effect).`));
-            
+        // SAFETY CHECK: Detect actions that have no effect
+        // If the agent ran the same action twice and the page didn't change either time,
+        // it's stuck on an action that does nothing, which is what the bug often is.
+        const noEffectAction = this.repeatedNoEffectAction(steps);
+        if (noEffectAction) {
+            console.log(chalk.yellow.bold(`\n⚠️  Loop detected: ${describeAction(noEffectAction)} changed nothing twice in a row`));
+            console.log(chalk.green.bold(`🎉  Treating it as a reproduction (action has no effect)${this.verifier ? ', pending verification' : ''}.`));
+
             status = 'reproduced';
+            reason = `Running ${describeAction(noEffectAction)}${noEffectAction.target ? ` on '${noEffectAction.target}'` : ''} twice did not change the page`;
             steps.push({
               stepNumber,
-              action: { type: 'wait', selector: 'body' }, // Dummy action to close loop
+              startedAt: new Date(stepStart),
+              action: { type: 'wait' }, // Dummy action to close loop
               observation,
-              thought: 'Loop detected: The agent kept clicking the same button with no result. This confirms the bug (action produces no change).'
+              thought: 'Loop detected: the same action ran twice without changing the page. This confirms the bug (action produces no change).'
             });
             break;
         }
 
-        const agentResponse = await this.agent.decideNextAction(
+        const agentResponse = await withDeadline('llm', deadlines, signal => this.agent.decideNextAction(
           this.config.bugDescription,
           observation,
-          this.history
-        );
+          this.history,
+          signal
+        ), this.cancellation.signal);
 
-        steps.push({
+        this.events.emit(this.runId, 'decision', {
           stepNumber,
           action: agentResponse.action,
+          thought: agentResponse.thought,
+          status: agentResponse.status || 'in_progress',
+          reason: agentResponse.reason
+        });
+
+        const reportStep: ReportData['steps'][number] = {
+          stepNumber,
+          startedAt: new Date(stepStart),
+          action: agentResponse.action,
           observation,
           thought: agentResponse.thought
-        });
+        };
+        steps.push(reportStep);
+
+        const logEntry: StepLogEntry = {
+          stepNumber,
+          startedAt: new Date(stepStart).toISOString(),
+          durationMs: 0,
+          observation: summarizeObservation(observation),
+          thought: agentResponse.thought,
+          action: agentResponse.action,
+          executed: false
+        };
+        this.stepLog.push(logEntry);
 
         if (this.config.verbose) {
           console.log(chalk.blue(`\n🎯 Action Decision:`));
           console.log(chalk.white(`   Type: ${agentResponse.action.type}`));
           console.log(chalk.white(`   Target: ${agentResponse.action.target || 'N/A'}`));
-          console.log(chalk.white(`   Selector: ${agentResponse.action.selector}`));
+          console.log(chalk.white(`   Element: ${actionTarget(agentResponse.action)}`));
           if (agentResponse.action.text) {
             console.log(chalk.white(`   Text: "${agentResponse.action.text}"`));
           }
@@ -213,6 +328,8 @@ export class Orchestrator {
             console.log(chalk.green(`Reason: ${agentResponse.reason || 'Agent detected the bug'}`));
           }
           status = 'reproduced';
+          reason = agentResponse.reason;
+          logEntry.durationMs = Date.now() - stepStart;
           break;
         }
 
@@ -221,19 +338,37 @@ export class Orchestrator {
           console.log(chalk.magenta(`\n⚡ Executing action: ${agentResponse.action.type}...`));
         }
         
+        const actionStart = Date.now();
+        actionError = undefined;
         try {
-          await this.executeAction(agentResponse.action);
-          // Only add to history if action succeeded
+          const result = await withDeadline('action', deadlines, signal => this.runner.executeAction(agentResponse.action, {}, signal), this.cancellation.signal);
           this.history.actions.push(agentResponse.action);
+          this.history.outcomes.push({ stepNumber, action: agentResponse.action, executed: true, strategy: result.strategy });
+          logEntry.executed = true;
+          reportStep.executed = true;
+          reportStep.strategy = result.strategy;
+          logEntry.locator = result.locator;
+          logEntry.resolvedSelector = result.resolvedSelector;
+          logEntry.toLocator = result.dropTarget?.locator;
+          logEntry.toResolvedSelector = result.dropTarget?.resolvedSelector;
+          this.events.emit(this.runId, 'action', { stepNumber, action: agentResponse.action, executed: true, strategy: result.strategy });
           
           if (this.config.verbose) {
             console.log(chalk.green(`✓ Action executed successfully`));
           }
         } catch (error: any) {
+          if (error instanceof TimeoutError || error instanceof RunCancelledError) {
+            logEntry.error = error.message;
+            reportStep.error = error.message;
+            logEntry.actionDurationMs = Date.now() - actionStart;
+            logEntry.durationMs = Date.now() - stepStart;
+            this.events.emit(this.runId, 'action', { stepNumber, action: agentResponse.action, executed: false, error: error.message });
+            throw error;
+          }
           console.error(chalk.red(`❌ Error executing action: ${error.message}`));
           if (this.config.verbose || process.env.DEBUG_API) {
-            console.error(chalk.red(`   Action: ${agentResponse.action.type}(${agentResponse.action.selector})`));
-            console.error(chalk.red(`   This action will NOT be added to history`));
+            console.error(chalk.red(`   Action: ${describeAction(agentResponse.action)}`));
+            console.error(chalk.red(`   The agent will be told it failed`));
             
             // Show full error details
             if (error.response) {
@@ -244,101 +379,241 @@ export class Orchestrator {
               console.error(chalk.gray(`   Stack: ${error.stack.split('\n').slice(0, 5).join('\n')}`));
             }
           }
-          // Don't add failed actions to history, but continue to next step
+          // Record the failure so the agent can correct it, and continue to the next step
+          logEntry.error = error.response?.data?.error || error.message;
+          reportStep.error = logEntry.error;
+          actionError = logEntry.error;
+          this.history.outcomes.push({ stepNumber, action: agentResponse.action, executed: false, error: logEntry.error });
+          this.events.emit(this.runId, 'action', { stepNumber, action: agentResponse.action, executed: false, error: logEntry.error });
         }
+        logEntry.actionDurationMs = Date.now() - actionStart;
 
         // Small delay between steps
         if (this.config.verbose) {
           console.log(chalk.gray(`\n⏳ Waiting 1 second before next step...`));
         }
         await new Promise(resolve => setTimeout(resolve, 1000));
+        logEntry.durationMs = Date.now() - stepStart;
       }
 
-      if (stepNumber >= this.config.maxSteps) {
+      if (status !== 'reproduced' && stepNumber >= this.config.maxSteps) {
         status = 'timeout';
       }
+
+      if (status === 'reproduced' && this.verifier) {
+        this.events.emit(this.runId, 'status', { status: 'verifying', reason });
+        verification = await this.verifyReproduction(reason || 'The agent reported the bug as reproduced', steps, startTime, runDeadline);
+        const { verdict } = verification;
+        status = verdict.status === 'reproduced' ? 'reproduced' : verdict.status === 'not_reproduced' ? 'failed' : 'inconclusive';
+        reason = `${verdict.status === 'reproduced' ? 'Verified' : verdict.status === 'not_reproduced' ? 'Rejected by verifier' : 'Inconclusive'}: ${verdict.reasoning}`;
+      }
     } catch (error: any) {
-      console.error(`Orchestrator error: ${error.message}`);
-      status = 'failed';
+      if (error instanceof TimeoutError) {
+        timeout = error.toInfo();
+        status = 'timeout';
+        reason = `Run stopped: ${error.message}`;
+        console.error(chalk.yellow(`⏱️  ${reason}`));
+      } else if (error instanceof RunCancelledError) {
+        status = 'failed';
+        reason = error.message;
+        console.error(chalk.yellow(`⏹️  ${reason}`));
+      } else {
+        console.error(`Orchestrator error: ${error.message}`);
+        status = 'failed';
+        runError = error.message;
+        retryable = isRunnerFailure(error);
+      }
     } finally {
-      // Capture final artifacts
-      const [finalState, networkEntries] = await Promise.all([
-        axios.get(`${this.config.runnerUrl}/state`).catch(() => ({ data: { consoleErrors: [] } })),
-        axios.get(`${this.config.runnerUrl}/network`).catch(() => ({ data: [] }))
+      // Capture final artifacts; a run that timed out may have left the runner stuck, so this
+      // doesn't wait out the full request timeout
+      const capture = AbortSignal.timeout(TEARDOWN_TIMEOUT_MS);
+      const [finalState, finalDom, networkEntries, rawBackendLogs] = await Promise.all([
+        this.runner.getState(capture).catch(() => null),
+        this.runner.getDOM(capture).catch(() => null),
+        this.runner.getNetwork(capture).catch(() => []),
+        this.runner.getBackendLogs(capture).catch(() => [])
       ]);
+      // The last action's effect, when no later step observed it
+      const lastStep = steps[steps.length - 1];
+      if (lastStep?.executed && !lastStep.changes && finalState && finalDom) {
+        lastStep.changes = diffObservations(lastStep.observation, { dom: finalDom, state: finalState });
+        this.recordPageChange(lastStep.stepNumber, lastStep.changes);
+      }
+      const backendLogs = correlateBackendLogs(rawBackendLogs, this.stepLog);
+      const consoleErrors = finalState?.consoleErrors || [];
 
       const artifacts = await this.artifactManager.initialize();
       
       // Stop tracing and get video path
-      const stopResponse = await axios.post(`${this.config.runnerUrl}/stop`, {
-        tracingPath: artifacts.tracingPath
-      }).catch(() => ({ data: { videoPath: null } }));
+      const sourceVideoPath = await this.runner.stop(artifacts.tracingPath, AbortSignal.timeout(TEARDOWN_TIMEOUT_MS)).catch(() => null);
 
-      const videoPath = await this.artifactManager.copyVideo(stopResponse.data.videoPath);
+      const videoPath = await this.artifactManager.copyVideo(sourceVideoPath);
 
       // Save artifacts
-      await this.artifactManager.saveNetworkHAR(networkEntries.data);
-      await this.artifactManager.saveConsoleLogs(finalState.data.consoleErrors || []);
+      await this.artifactManager.saveNetworkHAR(networkEntries);
+      await this.artifactManager.saveConsoleLogs(consoleErrors);
+      await this.artifactManager.saveBackendLogs(backendLogs);
 
       // Generate report
       const reportData: ReportData = {
         bugDescription: this.config.bugDescription,
+        targetUrl: this.config.targetUrl,
         startTime,
         endTime: new Date(),
         status,
+        reason,
+        timeout,
+        error: runError,
+        retryable,
+        verification,
         steps,
-        networkEntries: networkEntries.data,
-        consoleErrors: finalState.data.consoleErrors || [],
+        networkEntries,
+        consoleErrors,
+        backendLogs,
         artifacts: {
           ...artifacts,
           videoPath
         }
       };
 
+      // Save machine-readable step log for `bugbot replay`
+      const stepLog: StepLog = {
+        version: STEP_LOG_VERSION,
+        runId: this.runId,
+        bugDescription: this.config.bugDescription,
+        targetUrl: this.config.targetUrl,
+        startedAt: startTime.toISOString(),
+        endedAt: reportData.endTime.toISOString(),
+        steps: this.stepLog,
+        outcome: buildOutcome(
+          status,
+          reason,
+          { url: finalState?.url || '', consoleErrors },
+          networkEntries,
+          this.lastActionChangedPage(steps)
+        )
+      };
+      await this.artifactManager.saveStepLog(stepLog);
+
+      // Save a replayable Playwright spec for reproduced bugs
+      if (status === 'reproduced') {
+        reportData.artifacts.specPath = await this.artifactManager.saveReproductionSpec(
+          SpecGenerator.generate(stepLog)
+        );
+      }
+
       // Save HTML report
       const htmlReport = ReportGenerator.generateHTML(reportData);
       await fs.writeFile(artifacts.reportPath, htmlReport);
 
       // Save Markdown report
       const mdReport = ReportGenerator.generateMarkdown(reportData);
-      await fs.writeFile(
-        path.join(artifacts.runDir, 'report.md'),
-        mdReport
-      );
+      await fs.writeFile(artifacts.markdownReportPath, mdReport);
+
+      // Save JSON report for CI and other tooling
+      await fs.writeJSON(artifacts.jsonReportPath, ReportGenerator.generateJSON(reportData), { spaces: 2 });
 
       // Close browser
-      await axios.post(`${this.config.runnerUrl}/close`).catch(() => {});
+      await this.runner.close(AbortSignal.timeout(TEARDOWN_TIMEOUT_MS)).catch(() => {});
 
+      this.events.emit(this.runId, 'status', { status, reason });
+      this.events.emit(this.runId, 'artifacts', { artifacts: reportData.artifacts });
       return reportData;
     }
   }
 
-  private async executeAction(action: AgentAction): Promise<void> {
-    switch (action.type) {
-      case 'click':
-        await axios.post(`${this.config.runnerUrl}/action/click`, {
-          selector: action.selector
-        });
-        break;
-      case 'input':
-        await axios.post(`${this.config.runnerUrl}/action/input`, {
-          selector: action.selector,
-          text: action.text
-        });
-        break;
-      case 'wait':
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        break;
-      case 'navigate':
-        if (action.url) {
-          await axios.post(`${this.config.runnerUrl}/navigate`, {
-            url: action.url
-          });
-        }
-        break;
-      default:
-        throw new Error(`Unknown action type: ${(action as any).type}`);
+  /**
+   * Asks the verifier whether the claimed reproduction holds up, given a fresh
+   * observation and the evidence collected so far. A verification that fails or
+   * runs out of time is inconclusive rather than a timeout of the run.
+   */
+  private async verifyReproduction(
+    claim: string,
+    steps: ReportData['steps'],
+    startTime: Date,
+    runDeadline: Deadline
+  ): Promise<VerificationResult> {
+    if (this.config.verbose) {
+      console.log(chalk.yellow(`\n🔎 Verifying the reproduction...`));
+    }
+    const deadlines = [runDeadline, new Deadline('step', this.config.stepTimeout ?? DEFAULT_STEP_TIMEOUT_MS)];
+    let evidence: VerificationEvidence[] = [];
+
+    try {
+      const [dom, state, screenshot, networkEntries, rawBackendLogs] = await withDeadline('verification', deadlines, signal => Promise.all([
+        this.runner.getDOM(signal),
+        this.runner.getState(signal),
+        this.runner.getScreenshot(false, signal).catch(() => undefined),
+        this.runner.getNetwork(signal).catch(() => []),
+        this.runner.getBackendLogs(signal).catch(() => [])
+      ]), this.cancellation.signal);
+      const finalObservation: AgentObservation = { dom, state, screenshot, stepNumber: steps.length + 1 };
+      evidence = collectEvidence({
+        steps,
+        finalObservation,
+        startTime,
+        endTime: new Date(),
+        networkEntries,
+        consoleErrors: state.consoleErrors,
+        backendLogs: correlateBackendLogs(rawBackendLogs, this.stepLog)
+      });
+
+      const verdict = await withDeadline('verification', deadlines, signal => this.verifier!.verify({
+        bugDescription: this.config.bugDescription,
+        claim,
+        finalObservation,
+        actions: this.history.actions,
+        evidence
+      }, signal), this.cancellation.signal);
+
+      console.log(chalk.cyan(`🔎 Verifier: ${verdict.status} (confidence ${verdict.confidence.toFixed(2)})`));
+      return { claim, verdict, evidence };
+    } catch (error: any) {
+      if (error instanceof RunCancelledError) {
+        throw error;
+      }
+      console.error(chalk.yellow(`🔎 Verification could not be completed: ${error.message}`));
+      return {
+        claim,
+        verdict: { status: 'inconclusive', confidence: 0, reasoning: `Verification could not be completed: ${error.message}`, citedEvidence: [] },
+        evidence
+      };
     }
   }
-}
 
+  /**
+   * The action of the last two steps if both executed it and neither changed the
+   * page. Actions whose effect can't be seen in the DOM snapshot don't count.
+   */
+  private repeatedNoEffectAction(steps: ReportData['steps']): AgentAction | null {
+    const lastTwo = steps.slice(-2);
+    if (lastTwo.length < 2 || !lastTwo.every(step => step.executed && step.changes && isEmptyDiff(step.changes))) {
+      return null;
+    }
+    const [first, second] = lastTwo;
+    if (UNOBSERVABLE_ACTIONS.has(second.action.type) || describeAction(first.action) !== describeAction(second.action)) {
+      return null;
+    }
+    return second.action;
+  }
+
+  /**
+   * Marks whether the action executed at `stepNumber` changed the page, once a
+   * later observation shows it.
+   */
+  private recordPageChange(stepNumber: number, changes: DOMDiff): void {
+    const outcome = this.history.outcomes.find(entry => entry.stepNumber === stepNumber && entry.executed);
+    if (outcome) {
+      outcome.pageChanged = !isEmptyDiff(changes);
+    }
+  }
+
+  /**
+   * Whether the last successfully executed action changed the page, or null if
+   * no observation was taken after it.
+   */
+  private lastActionChangedPage(steps: ReportData['steps']): boolean | null {
+    const lastExecuted = [...steps].reverse().find(step => step.executed);
+    return lastExecuted?.changes ? !isEmptyDiff(lastExecuted.changes) : null;
+  }
+}
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import { AgentAction, actionTarget, describeAction } from '@bugbot/agent';
+import { isEmptyDiff } from '@bugbot/runner';
+import { ReportData } from '../report-generator';
+
+const STATUS_HEADINGS: Record<ReportData['status'], string> = {
+  reproduced: '🐞 Reproduced',
+  failed: '❌ Not reproduced',
+  inconclusive: '❔ Inconclusive',
+  timeout: '⏱️ Timed out'
+};
+
+/** Links to a run's files, e.g. `(runId, 'report.html') => 'https://bugbot.example.com/runs/<id>/report.html'` */
+export type ArtifactUrl = (runId: string, file: string) => string;
+
+/**
+ * The steps someone would follow to see the bug, in plain words: open the page,
+ * then every action that ran, leaving out waits and failed attempts and
+ * collapsing an action repeated without effect into one.
+ */
+export function reproductionSteps(data: ReportData): string[] {
+  const steps = [`Open ${data.targetUrl}`];
+  let previous: ReportData['steps'][number] | undefined;
+  for (const step of data.steps) {
+    if (!step.executed || step.action.type === 'wait') {
+      continue;
+    }
+    const repeated = previous
+      && describeAction(previous.action) === describeAction(step.action)
+      && previous.changes && isEmptyDiff(previous.changes);
+    if (!repeated) {
+      steps.push(describeStep(step.action));
+    }
+    previous = step;
+  }
+  return steps;
+}
+
+/**
+ * Markdown comment for the issue a run was started for: the status, the reason,
+ * the reproduction steps and links to the report and other artifacts.
+ */
+export function resultComment(runId: string, data: ReportData, artifactUrl?: ArtifactUrl): string {
+  const duration = Math.round((data.endTime.getTime() - data.startTime.getTime()) / 1000);
+  const verdict = data.verification?.verdict;
+  const lines = [
+    `### BugBot: ${STATUS_HEADINGS[data.status]}`,
+    '',
+    `**Status**: ${data.status}${verdict ? ` (verifier: ${verdict.status}, confidence ${verdict.confidence.toFixed(2)})` : ''}`
+  ];
+  if (data.reason) {
+    lines.push(`**Reason**: ${data.reason}`);
+  }
+
+  lines.push('', data.status === 'reproduced' ? '**Steps to reproduce**' : '**Steps tried**');
+  lines.push(...reproductionSteps(data).map((step, idx) => `${idx + 1}. ${step}`));
+
+  const { artifacts } = data;
+  const files: Array<[string, string | null]> = [
+    ['Report', artifacts.reportPath],
+    ['Markdown report', artifacts.markdownReportPath],
+    ['Trace', artifacts.tracingPath],
+    ['HAR', artifacts.harPath],
+    ['Video', artifacts.videoPath],
+    ['Playwright spec', artifacts.specPath]
+  ];
+  const links = files
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([label, file]) => {
+      const relative = path.relative(artifacts.runDir, file).split(path.sep).join('/');
+      return artifactUrl ? `[${label}](${artifactUrl(runId, relative)})` : `${label}: \`${file}\``;
+    });
+  lines.push('', `**Artifacts**: ${links.join(' · ')}`);
+  lines.push('', `<sub>Run ${runId} · ${data.steps.length} steps · ${duration}s</sub>`);
+  return lines.join('\n');
+}
+
+function describeStep(action: AgentAction): string {
+  const target = action.target ? `"${action.target}"` : `\`${actionTarget(action)}\``;
+  switch (action.type) {
+    case 'click': return `Click ${target}`;
+    case 'input': return `Type "${action.text ?? ''}" into ${target}`;
+    case 'select': return `Select "${action.value ?? ''}" in ${target}`;
+    case 'hover': return `Hover over ${target}`;
+    case 'keypress': return `Press ${action.key}${action.elementId !== undefined ? ` in ${target}` : ''}`;
+    case 'scroll': return action.elementId !== undefined ? `Scroll to ${target}` : `Scroll ${action.direction || 'down'}`;
+    case 'check': return `${action.checked === false ? 'Uncheck' : 'Check'} ${target}`;
+    case 'drag': return `Drag ${target} onto \`#${action.toElementId}\``;
+    case 'upload': return `Upload ${action.fileName} to ${target}`;
+    case 'navigate': return `Go to ${action.url}`;
+    default: return describeAction(action);
+  }
+}
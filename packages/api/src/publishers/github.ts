@@ -0,0 +1,43 @@
+import axios, { AxiosInstance } from 'axios';
+import { WebhookIssue } from '../webhooks/types';
+import { ResultPublisher } from './types';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Comments and labels through GitHub's REST API. Issue ids are `owner/repo#number`,
+ * as the GitHub webhook adapter makes them.
+ */
+export class GitHubPublisher implements ResultPublisher {
+  private http: AxiosInstance;
+
+  constructor(token: string, apiUrl: string) {
+    this.http = axios.create({
+      baseURL: apiUrl.replace(/\/$/, ''),
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28'
+      }
+    });
+  }
+
+  async comment(issue: WebhookIssue, body: string): Promise<void> {
+    await this.http.post(`${this.issuePath(issue)}/comments`, { body });
+  }
+
+  async addLabel(issue: WebhookIssue, label: string): Promise<void> {
+    // GitHub creates labels that don't exist yet
+    await this.http.post(`${this.issuePath(issue)}/labels`, { labels: [label] });
+  }
+
+  private issuePath(issue: WebhookIssue): string {
+    const match = issue.id.match(/^([^/#]+)\/([^/#]+)#(\d+)$/);
+    if (!match) {
+      throw new Error(`Not a GitHub issue id: ${issue.id}`);
+    }
+    const [, owner, repo, number] = match;
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/issues/${number}`;
+  }
+}
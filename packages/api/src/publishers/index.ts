@@ -0,0 +1,88 @@
+import chalk from 'chalk';
+import { QueuedRun } from '../run-queue';
+import { WebhookConfig } from '../webhooks/routing';
+import { PublishConfig, PublisherDefinition, ResultPublisher, SourcePublisher } from './types';
+import { ArtifactUrl, resultComment } from './comment';
+import { GitHubPublisher } from './github';
+import { LinearPublisher } from './linear';
+
+export * from './types';
+export * from './comment';
+export { GitHubPublisher } from './github';
+export { LinearPublisher } from './linear';
+
+const registry = new Map<string, PublisherDefinition>();
+
+export function registerResultPublisher(name: string, definition: PublisherDefinition): void {
+  registry.set(name, definition);
+}
+
+export function getResultPublisherDefinition(name: string): PublisherDefinition | undefined {
+  return registry.get(name);
+}
+
+export function createResultPublisher(name: string, config: PublishConfig): ResultPublisher {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`Results can't be published to ${name}. Publishers exist for: ${[...registry.keys()].join(', ')}`);
+  }
+  const token = config.token || definition.tokenEnv.map(env => process.env[env]).find(Boolean);
+  if (!token) {
+    throw new Error(`No API token to publish ${name} results. Set ${definition.tokenEnv.join(' or ')}, or "token" under "publish".`);
+  }
+  return definition.create({ token, apiUrl: config.apiUrl || definition.defaultApiUrl });
+}
+
+/**
+ * Publishers for every webhook source that has `publish` set, by source name.
+ * Throws for sources without a publisher or token, so misconfiguration shows at startup.
+ */
+export function createResultPublishers(config: WebhookConfig): Map<string, SourcePublisher> {
+  const publishers = new Map<string, SourcePublisher>();
+  for (const [name, source] of Object.entries(config.sources)) {
+    if (source.publish) {
+      publishers.set(name, { publisher: createResultPublisher(name, source.publish), config: source.publish });
+    }
+  }
+  return publishers;
+}
+
+/**
+ * Comments on the issue a finished run was queued for and applies the label
+ * configured for its status. Runs without an issue or report, or from sources
+ * that don't publish, are skipped. Failures are logged, not thrown.
+ */
+export async function publishRunResult(
+  run: QueuedRun,
+  publishers: Map<string, SourcePublisher>,
+  artifactUrl?: ArtifactUrl
+): Promise<void> {
+  const target = run.issue && publishers.get(run.issue.source);
+  if (!run.issue || !run.report || !target) {
+    return;
+  }
+  const { publisher, config } = target;
+  const label = config.labels?.[run.report.status];
+  try {
+    await publisher.comment(run.issue, resultComment(run.id, run.report, artifactUrl));
+    if (label) {
+      await publisher.addLabel(run.issue, label);
+    }
+    console.log(chalk.blue(`📤 Posted ${run.id}'s result to ${run.issue.source} issue ${run.issue.id}${label ? ` with label "${label}"` : ''}`));
+  } catch (error: any) {
+    const detail = error.response ? ` (HTTP ${error.response.status}: ${JSON.stringify(error.response.data)})` : '';
+    console.error(chalk.red(`Could not post ${run.id}'s result to ${run.issue.source} issue ${run.issue.id}: ${error.message}${detail}`));
+  }
+}
+
+registerResultPublisher('github', {
+  tokenEnv: ['GITHUB_TOKEN'],
+  defaultApiUrl: 'https://api.github.com',
+  create: ({ token, apiUrl }) => new GitHubPublisher(token, apiUrl)
+});
+
+registerResultPublisher('linear', {
+  tokenEnv: ['LINEAR_API_KEY'],
+  defaultApiUrl: 'https://api.linear.app/graphql',
+  create: ({ token, apiUrl }) => new LinearPublisher(token, apiUrl)
+});
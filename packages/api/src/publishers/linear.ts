@@ -0,0 +1,61 @@
+import axios, { AxiosInstance } from 'axios';
+import { WebhookIssue } from '../webhooks/types';
+import { ResultPublisher } from './types';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Comments and labels through Linear's GraphQL API. Labels are looked up by name
+ * and created as workspace labels when missing.
+ */
+export class LinearPublisher implements ResultPublisher {
+  private http: AxiosInstance;
+
+  constructor(token: string, apiUrl: string) {
+    this.http = axios.create({
+      baseURL: apiUrl,
+      timeout: REQUEST_TIMEOUT_MS,
+      // Personal API keys are sent as is; OAuth tokens need the Bearer prefix
+      headers: { Authorization: token.startsWith('lin_api_') ? token : `Bearer ${token}` }
+    });
+  }
+
+  async comment(issue: WebhookIssue, body: string): Promise<void> {
+    await this.request(
+      'mutation CommentCreate($input: CommentCreateInput!) { commentCreate(input: $input) { success } }',
+      { input: { issueId: issue.internalId || issue.id, body } }
+    );
+  }
+
+  async addLabel(issue: WebhookIssue, label: string): Promise<void> {
+    const found = await this.request(
+      'query IssueLabels($name: String!) { issueLabels(filter: { name: { eqIgnoreCase: $name } }) { nodes { id } } }',
+      { name: label }
+    );
+    let labelId: string | undefined = found.issueLabels?.nodes?.[0]?.id;
+    if (!labelId) {
+      const created = await this.request(
+        'mutation IssueLabelCreate($input: IssueLabelCreateInput!) { issueLabelCreate(input: $input) { issueLabel { id } } }',
+        { input: { name: label } }
+      );
+      labelId = created.issueLabelCreate?.issueLabel?.id;
+    }
+    if (!labelId) {
+      throw new Error(`Linear returned no id for label "${label}"`);
+    }
+    await this.request(
+      'mutation IssueAddLabel($id: String!, $labelId: String!) { issueAddLabel(id: $id, labelId: $labelId) { success } }',
+      { id: issue.internalId || issue.id, labelId }
+    );
+  }
+
+  /** Runs a GraphQL operation; GraphQL errors come back with a 200, so they're thrown here */
+  private async request(query: string, variables: Record<string, unknown>): Promise<any> {
+    const response = await this.http.post('', { query, variables });
+    const { data, errors } = response.data || {};
+    if (errors?.length) {
+      throw new Error(`Linear API error: ${errors.map((error: { message: string }) => error.message).join('; ')}`);
+    }
+    return data || {};
+  }
+}
@@ -0,0 +1,39 @@
+import { ReportData } from '../report-generator';
+import { WebhookIssue } from '../webhooks/types';
+
+/**
+ * Posts results to the issue tracker an issue came from. Register new ones with
+ * `registerResultPublisher(name, definition)` under the webhook source's name.
+ */
+export interface ResultPublisher {
+  /** Adds a Markdown comment to the issue */
+  comment(issue: WebhookIssue, body: string): Promise<void>;
+  /** Applies a label to the issue, creating it first if the tracker needs that */
+  addLabel(issue: WebhookIssue, label: string): Promise<void>;
+}
+
+export interface PublisherDefinition {
+  /** Environment variables checked, in order, for the API token when the config has none */
+  tokenEnv: string[];
+  defaultApiUrl: string;
+  create(options: { token: string; apiUrl: string }): ResultPublisher;
+}
+
+/** A source's publisher with the settings it was made from */
+export interface SourcePublisher {
+  publisher: ResultPublisher;
+  config: PublishConfig;
+}
+
+/**
+ * How a webhook source's results are posted back. Publishing is off for sources
+ * without it.
+ */
+export interface PublishConfig {
+  /** API token (default: the publisher's environment variable, e.g. `GITHUB_TOKEN`) */
+  token?: string;
+  /** API base URL, e.g. to point at GitHub Enterprise or a local stub */
+  apiUrl?: string;
+  /** Label to apply for each run status, e.g. `{ "reproduced": "reproduced", "failed": "not-reproduced" }` */
+  labels?: Partial<Record<ReportData['status'], string>>;
+}
@@ -0,0 +1,137 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { AgentAction, describeAction } from '@bugbot/agent';
+import { RunnerClient } from './runner-client';
+import { StepLog, RunOutcome, buildOutcome, missingSignals, pageChanged } from './step-log';
+
+export interface ReplayOptions {
+  runnerUrl: string;
+  targetUrl?: string;
+  headless?: boolean;
+  verbose?: boolean;
+}
+
+export interface ReplayStepResult {
+  stepNumber: number;
+  action: AgentAction;
+  success: boolean;
+  resolvedSelector?: string;
+  recordedSelector?: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ReplayResult {
+  runId: string;
+  replayedAt: string;
+  targetUrl: string;
+  steps: ReplayStepResult[];
+  expected: RunOutcome;
+  actual: RunOutcome;
+  missingSignals: string[];
+  sameOutcome: boolean;
+}
+
+/**
+ * Re-executes the actions recorded in a run's step log against the runner,
+ * without consulting the LLM, and checks whether the recorded outcome happens again.
+ */
+export class Replayer {
+  private stepLog: StepLog;
+  private options: ReplayOptions;
+  private runner: RunnerClient;
+
+  constructor(stepLog: StepLog, options: ReplayOptions) {
+    this.stepLog = stepLog;
+    this.options = options;
+    this.runner = new RunnerClient(options.runnerUrl);
+  }
+
+  static async load(runDir: string): Promise<StepLog> {
+    const stepLogPath = path.join(runDir, 'steps.json');
+    if (!await fs.pathExists(stepLogPath)) {
+      throw new Error(`No step log found at ${stepLogPath}`);
+    }
+    return await fs.readJSON(stepLogPath);
+  }
+
+  async replay(): Promise<ReplayResult> {
+    const targetUrl = this.options.targetUrl || this.stepLog.targetUrl;
+    const executedSteps = this.stepLog.steps.filter(step => step.executed);
+    const results: ReplayStepResult[] = [];
+    let lastActionChangedPage: boolean | null = null;
+
+    await this.runner.init(this.options.headless ?? true);
+    try {
+      await this.runner.navigate(targetUrl);
+
+      for (const [idx, step] of executedSteps.entries()) {
+        const isLast = idx === executedSteps.length - 1;
+        const before = isLast ? await this.observe() : null;
+
+        const start = Date.now();
+        const result: ReplayStepResult = {
+          stepNumber: step.stepNumber,
+          action: step.action,
+          success: false,
+          recordedSelector: step.resolvedSelector,
+          durationMs: 0
+        };
+        try {
+          const actionResult = await this.runner.executeAction(step.action, step);
+          result.success = true;
+          result.resolvedSelector = actionResult.resolvedSelector;
+        } catch (error: any) {
+          result.error = error.response?.data?.error || error.message;
+        }
+        result.durationMs = Date.now() - start;
+        results.push(result);
+
+        if (this.options.verbose) {
+          const label = step.action.target || describeAction(step.action);
+          console.log(result.success
+            ? chalk.green(`✓ Step ${step.stepNumber}: ${label}`)
+            : chalk.red(`❌ Step ${step.stepNumber}: ${label} - ${result.error}`));
+          if (result.success && result.resolvedSelector !== result.recordedSelector) {
+            console.log(chalk.yellow(`   Selector resolved differently: ${result.recordedSelector} → ${result.resolvedSelector}`));
+          }
+        }
+
+        if (before) {
+          // Give the page the same settling time the orchestrator does between steps
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          lastActionChangedPage = pageChanged(before, await this.observe());
+        }
+      }
+
+      const [finalState, networkEntries] = await Promise.all([
+        this.runner.getState(),
+        this.runner.getNetwork()
+      ]);
+
+      const expected = this.stepLog.outcome;
+      const observed = buildOutcome(expected.status, undefined, finalState, networkEntries, lastActionChangedPage);
+      const missing = missingSignals(expected, observed);
+      const sameOutcome = missing.length === 0 && results.every(r => r.success);
+
+      return {
+        runId: this.stepLog.runId,
+        replayedAt: new Date().toISOString(),
+        targetUrl,
+        steps: results,
+        expected,
+        actual: { ...observed, status: sameOutcome ? expected.status : 'failed' },
+        missingSignals: missing,
+        sameOutcome
+      };
+    } finally {
+      await this.runner.close().catch(() => {});
+    }
+  }
+
+  private async observe() {
+    const [dom, state] = await Promise.all([this.runner.getDOM(), this.runner.getState()]);
+    return { dom, state };
+  }
+}
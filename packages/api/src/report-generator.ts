@@ -1,27 +1,58 @@
+import * as path from 'path';
 import { ArtifactPaths } from './artifact-manager';
-import { AgentAction, AgentObservation } from '@bugbot/agent';
-import { NetworkEntry } from '@bugbot/runner';
+import { JsonReport, REPORT_SCHEMA_VERSION } from './report-schema';
+import { StepBackendLogEntry, failedRequests } from './step-log';
+import { TimelineEntry, buildTimeline, isFailedRequest } from './timeline';
+import { VerificationResult } from './verification';
+import { TimeoutInfo } from './timeouts';
+import { AgentAction, AgentObservation, actionTarget, describePageChanges } from '@bugbot/agent';
+import { DOMDiff, LocatorCandidate, NetworkEntry, isEmptyDiff } from '@bugbot/runner';
 
 export interface ReportData {
   bugDescription: string;
+  targetUrl: string;
   startTime: Date;
   endTime: Date;
-  status: 'reproduced' | 'failed' | 'timeout';
+  status: 'reproduced' | 'failed' | 'inconclusive' | 'timeout';
+  reason?: string;
+  /** Which limit ran out, and during which phase, for runs stopped by a timeout */
+  timeout?: TimeoutInfo;
+  /** What stopped the run, for runs ended by an error (the runner or target unreachable, the browser crashing) */
+  error?: string;
+  /** Whether `error` came from the runner failing (see `isRunnerFailure`), so running again may succeed */
+  retryable?: boolean;
+  /** Verifier's verdict, for runs that claimed a reproduction */
+  verification?: VerificationResult;
   steps: Array<{
     stepNumber: number;
+    startedAt: Date;
     action: AgentAction;
     observation: AgentObservation;
     thought?: string;
+    /** Whether the action was carried out; the step that concludes a run has its action only proposed */
+    executed?: boolean;
+    /** Why the action could not be executed */
+    error?: string;
+    /** Locator strategy the runner resolved the action's target with */
+    strategy?: LocatorCandidate['strategy'];
+    /** How the executed action changed the page */
+    changes?: DOMDiff;
   }>;
   networkEntries: NetworkEntry[];
   consoleErrors: string[];
+  /** Backend log entries of the run, attributed to the step they were logged in */
+  backendLogs: StepBackendLogEntry[];
   artifacts: ArtifactPaths;
 }
 
 export class ReportGenerator {
   static generateHTML(data: ReportData): string {
+    const timeline = buildTimeline(data);
     const duration = Math.round((data.endTime.getTime() - data.startTime.getTime()) / 1000);
-    const statusColor = data.status === 'reproduced' ? '#ef4444' : data.status === 'failed' ? '#f59e0b' : '#6b7280';
+    const statusColor = data.status === 'reproduced' ? '#ef4444'
+      : data.status === 'failed' ? '#f59e0b'
+      : data.status === 'inconclusive' ? '#0ea5e9'
+      : '#6b7280';
     
     return `<!DOCTYPE html>
 <html lang="en">
@@ -125,23 +156,6 @@ export class ReportGenerator {
             margin: 5px 0;
             color: #4b5563;
         }
-        .network-section, .errors-section {
-            margin-top: 30px;
-            padding: 20px;
-            background: #f9fafb;
-            border-radius: 6px;
-        }
-        .network-entry, .error-entry {
-            padding: 10px;
-            margin: 5px 0;
-            background: white;
-            border-radius: 4px;
-            font-family: 'Monaco', 'Courier New', monospace;
-            font-size: 0.85em;
-        }
-        .error-entry {
-            color: #dc2626;
-        }
         .artifacts {
             margin-top: 30px;
             padding: 20px;
@@ -157,6 +171,18 @@ export class ReportGenerator {
             font-family: 'Monaco', 'Courier New', monospace;
             font-size: 0.9em;
         }
+        .verification {
+            margin-top: 30px;
+            padding: 20px;
+            background: #f0f9ff;
+            border-radius: 6px;
+        }
+        .verification p, .verification ul, .verification details {
+            margin-top: 8px;
+        }
+        .verification ul {
+            padding-left: 20px;
+        }
         .conclusion {
             margin-top: 30px;
             padding: 20px;
@@ -164,6 +190,80 @@ export class ReportGenerator {
             border-left: 4px solid ${statusColor};
             border-radius: 4px;
         }
+        .step.has-error {
+            border-left-color: #dc2626;
+        }
+        .step.highlight {
+            box-shadow: 0 0 0 3px #fca5a5;
+        }
+        .step-number .time {
+            font-weight: 400;
+            margin-left: 8px;
+        }
+        .step-error {
+            color: #dc2626;
+            margin: 10px 0;
+        }
+        .step-outcome {
+            color: #6b7280;
+            font-size: 0.9em;
+            margin: 10px 0;
+        }
+        .changes {
+            margin-top: 10px;
+            padding: 10px;
+            background: white;
+            border-radius: 4px;
+            font-size: 0.9em;
+        }
+        .changes ul {
+            list-style: none;
+            margin-top: 5px;
+            font-family: 'Monaco', 'Courier New', monospace;
+            font-size: 0.9em;
+            white-space: pre-wrap;
+        }
+        .changes.unchanged {
+            color: #b45309;
+        }
+        .screenshot img {
+            max-width: 100%;
+            margin-top: 10px;
+            border: 1px solid #e5e7eb;
+        }
+        .timeline-controls {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 16px;
+            align-items: center;
+            margin: 10px 0 20px;
+        }
+        .events {
+            margin-top: 10px;
+        }
+        .event {
+            padding: 6px 10px;
+            margin: 4px 0;
+            background: white;
+            border-radius: 4px;
+            font-family: 'Monaco', 'Courier New', monospace;
+            font-size: 0.8em;
+            word-break: break-all;
+        }
+        .event-error {
+            color: #dc2626;
+        }
+        .event-warn {
+            color: #b45309;
+        }
+        .event .kind {
+            display: inline-block;
+            width: 70px;
+            color: #6b7280;
+        }
+        .hidden {
+            display: none;
+        }
     </style>
 </head>
 <body>
@@ -190,40 +290,15 @@ export class ReportGenerator {
         </div>
 
         <div class="steps">
-            <h2>Execution Steps</h2>
-            ${data.steps.map((step, idx) => `
-                <div class="step">
-                    <div class="step-number">Step ${step.stepNumber}</div>
-                    ${step.thought ? `<div class="thought">💭 ${this.escapeHtml(step.thought)}</div>` : ''}
-                    <div class="action">
-                        ${step.action.type.toUpperCase()}: ${this.escapeHtml(step.action.selector)}${step.action.text ? ` - "${this.escapeHtml(step.action.text)}"` : ''}
-                    </div>
-                    <div class="observation">
-                        <div class="observation-item"><strong>URL:</strong> ${this.escapeHtml(step.observation.state.url)}</div>
-                        <div class="observation-item"><strong>Title:</strong> ${this.escapeHtml(step.observation.state.title)}</div>
-                        <div class="observation-item"><strong>Clickable Elements:</strong> ${step.observation.dom.filter(e => e.clickable).length}</div>
-                    </div>
-                </div>
-            `).join('')}
-        </div>
-
-        ${data.consoleErrors.length > 0 ? `
-        <div class="errors-section">
-            <h2>Console Errors</h2>
-            ${data.consoleErrors.map(error => `
-                <div class="error-entry">${this.escapeHtml(error)}</div>
-            `).join('')}
-        </div>
-        ` : ''}
-
-        <div class="network-section">
-            <h2>Network Activity</h2>
-            <p>Total requests: ${data.networkEntries.length}</p>
-            ${data.networkEntries.slice(-20).map(entry => `
-                <div class="network-entry">
-                    ${entry.method} ${this.escapeHtml(entry.url)} ${entry.status ? `(${entry.status})` : '(pending)'}
-                </div>
-            `).join('')}
+            <h2>Timeline</h2>
+            <div class="timeline-controls">
+                <label><input type="checkbox" data-filter="console" checked> Console (${data.consoleErrors.length})</label>
+                <label><input type="checkbox" data-filter="network" checked> Network (${data.networkEntries.length})</label>
+                <label><input type="checkbox" data-filter="backend" checked> Backend logs (${data.backendLogs.length})</label>
+                <label><input type="checkbox" id="errors-only"> Errors only</label>
+                <button type="button" id="jump-to-error"${timeline.some(entry => entry.hasError) ? '' : ' disabled'}>Jump to first error</button>
+            </div>
+            ${timeline.map(entry => this.renderTimelineEntry(entry, data.startTime.getTime())).join('')}
         </div>
 
         <div class="artifacts">
@@ -233,9 +308,15 @@ export class ReportGenerator {
                 <li>📊 Trace: ${data.artifacts.tracingPath}</li>
                 <li>🌐 HAR: ${data.artifacts.harPath}</li>
                 <li>📝 Logs: ${data.artifacts.logsPath}</li>
+                <li>🖥️ Backend logs: ${data.artifacts.backendLogPath}</li>
+                <li>🪜 Step log: ${data.artifacts.stepLogPath}</li>
+                <li>🧾 JSON report: ${data.artifacts.jsonReportPath}</li>
+                ${data.artifacts.specPath ? `<li>🧪 Playwright spec: ${data.artifacts.specPath}</li>` : ''}
             </ul>
         </div>
 
+        ${data.verification ? this.renderVerification(data.verification) : ''}
+
         <div class="conclusion">
             <h2>Conclusion</h2>
             <p>
@@ -243,14 +324,114 @@ export class ReportGenerator {
                     ? '✅ Bug was successfully reproduced. The issue was observed during the test execution.' 
                     : data.status === 'failed'
                     ? '❌ Bug reproduction failed. The agent was unable to reproduce the issue within the given constraints.'
-                    : '⏱️ Test timed out before completion.'}
+                    : data.status === 'inconclusive'
+                    ? '❔ Inconclusive. The run claimed a reproduction, but the verifier found the evidence insufficient.'
+                    : `⏱️ Test timed out before completion.${data.timeout ? ` ${this.escapeHtml(this.describeTimeout(data.timeout))}` : ''}`}
             </p>
         </div>
     </div>
+    <script>
+        // Filters hide events by kind, or everything but errors; steps left with nothing to show stay visible
+        const filters = document.querySelectorAll('[data-filter]');
+        const errorsOnly = document.getElementById('errors-only');
+        function applyFilters() {
+            const kinds = Array.from(filters).filter(f => f.checked).map(f => f.dataset.filter);
+            document.querySelectorAll('.event').forEach(el => {
+                const visible = kinds.includes(el.dataset.kind) && (!errorsOnly.checked || el.classList.contains('event-error'));
+                el.classList.toggle('hidden', !visible);
+            });
+            document.querySelectorAll('.step').forEach(el => {
+                el.classList.toggle('hidden', errorsOnly.checked && !el.classList.contains('has-error'));
+            });
+        }
+        filters.forEach(f => f.addEventListener('change', applyFilters));
+        errorsOnly.addEventListener('change', applyFilters);
+        document.getElementById('jump-to-error').addEventListener('click', () => {
+            const first = document.querySelector('.step.has-error');
+            if (!first) return;
+            first.classList.remove('hidden');
+            first.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            first.classList.add('highlight');
+            setTimeout(() => first.classList.remove('highlight'), 2000);
+        });
+    </script>
 </body>
 </html>`;
   }
 
+  static generateJSON(data: ReportData): JsonReport {
+    const { artifacts } = data;
+    return {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      runId: path.basename(artifacts.runDir),
+      bugDescription: data.bugDescription,
+      targetUrl: data.targetUrl,
+      status: data.status,
+      reason: data.reason,
+      timeout: data.timeout,
+      error: data.error,
+      verification: data.verification,
+      startTime: data.startTime.toISOString(),
+      endTime: data.endTime.toISOString(),
+      durationMs: data.endTime.getTime() - data.startTime.getTime(),
+      steps: data.steps.map(step => ({
+        stepNumber: step.stepNumber,
+        thought: step.thought,
+        action: step.action,
+        observation: {
+          url: step.observation.state.url,
+          title: step.observation.state.title,
+          elementCount: step.observation.dom.length,
+          clickableCount: step.observation.dom.filter(e => e.clickable).length,
+          consoleErrorCount: step.observation.state.consoleErrors.length
+        },
+        outcome: {
+          executed: !!step.executed,
+          error: step.error,
+          strategy: step.strategy,
+          pageChanged: step.changes ? !isEmptyDiff(step.changes) : undefined
+        },
+        changes: step.changes ? describePageChanges(step.changes, Infinity) : undefined
+      })),
+      console: {
+        errorCount: data.consoleErrors.length,
+        errors: data.consoleErrors
+      },
+      network: {
+        requestCount: data.networkEntries.length,
+        failedRequests: failedRequests(data.networkEntries),
+        erroredRequests: data.networkEntries
+          .filter(entry => entry.failure)
+          .map(entry => ({ method: entry.method, url: entry.url, failure: entry.failure! })),
+        pendingCount: data.networkEntries.filter(entry => !entry.status && !entry.failure).length
+      },
+      backendLogs: {
+        count: data.backendLogs.length,
+        errorCount: data.backendLogs.filter(entry => entry.level === 'error').length,
+        entries: data.backendLogs.map(entry => ({
+          timestamp: new Date(entry.timestamp).toISOString(),
+          stepNumber: entry.stepNumber,
+          source: entry.source,
+          level: entry.level,
+          message: entry.message
+        }))
+      },
+      artifacts: {
+        runDir: artifacts.runDir,
+        htmlReport: artifacts.reportPath,
+        markdownReport: artifacts.markdownReportPath,
+        jsonReport: artifacts.jsonReportPath,
+        trace: artifacts.tracingPath,
+        har: artifacts.harPath,
+        consoleLog: artifacts.logsPath,
+        backendLog: artifacts.backendLogPath,
+        stepLog: artifacts.stepLogPath,
+        video: artifacts.videoPath,
+        spec: artifacts.specPath
+      }
+    };
+  }
+
   static generateMarkdown(data: ReportData): string {
     const duration = Math.round((data.endTime.getTime() - data.startTime.getTime()) / 1000);
     
@@ -270,26 +451,31 @@ export class ReportGenerator {
 ${data.steps.map((step, idx) => `
 ### Step ${step.stepNumber}
 
-**Action**: \`${step.action.type}\` on \`${step.action.selector}\`${step.action.text ? ` with text "${step.action.text}"` : ''}
+**Action**: \`${step.action.type}\` on \`${step.action.target || actionTarget(step.action)}\`${step.action.text ? ` with text "${step.action.text}"` : ''}
 
 ${step.thought ? `**Thought**: ${step.thought}\n` : ''}
+**Outcome**: ${this.describeOutcome(step)}
 
 **Observation**:
 - URL: ${step.observation.state.url}
 - Title: ${step.observation.state.title}
 - Clickable Elements: ${step.observation.dom.filter(e => e.clickable).length}
-
+${step.changes ? `\n**Page Changes**:\n${this.markdownChanges(step.changes)}\n` : ''}
 `).join('')}
 
 ## Console Errors
 
 ${data.consoleErrors.length > 0 ? data.consoleErrors.map(e => `- ${e}`).join('\n') : 'None'}
 
-## Network Activity
+${data.backendLogs.length > 0 ? `## Backend Logs
+
+${data.backendLogs.slice(-50).map(e => `- ${this.describeBackendLog(e)}`).join('\n')}
+
+` : ''}## Network Activity
 
 Total requests: ${data.networkEntries.length}
 
-${data.networkEntries.slice(-20).map(e => `- ${e.method} ${e.url} ${e.status ? `(${e.status})` : '(pending)'}`).join('\n')}
+${data.networkEntries.slice(-20).map(e => `- ${e.method} ${e.url} ${this.networkStatus(e)}`).join('\n')}
 
 ## Artifacts
 
@@ -297,17 +483,150 @@ ${data.networkEntries.slice(-20).map(e => `- ${e.method} ${e.url} ${e.status ? `
 - Trace: ${data.artifacts.tracingPath}
 - HAR: ${data.artifacts.harPath}
 - Logs: ${data.artifacts.logsPath}
+- Backend logs: ${data.artifacts.backendLogPath}
+- Step log: ${data.artifacts.stepLogPath}
+- JSON report: ${data.artifacts.jsonReportPath}
+${data.artifacts.specPath ? `- Playwright spec: ${data.artifacts.specPath}\n` : ''}
+${data.verification ? `## Verification
+
+- **Claim**: ${data.verification.claim}
+- **Verdict**: ${data.verification.verdict.status} (confidence ${data.verification.verdict.confidence.toFixed(2)})
+- **Reasoning**: ${data.verification.verdict.reasoning}
+
+${this.citedEvidence(data.verification).map(({ id, explanation, evidence }) => `- [${id}] ${evidence?.description || ''}${explanation ? ` — ${explanation}` : ''}`).join('\n') || 'No evidence cited.'}
 
-## Conclusion
+` : ''}## Conclusion
 
 ${data.status === 'reproduced' 
     ? '✅ Bug was successfully reproduced.' 
     : data.status === 'failed'
     ? '❌ Bug reproduction failed.'
-    : '⏱️ Test timed out.'}
+    : data.status === 'inconclusive'
+    ? '❔ Inconclusive: the verifier found the evidence insufficient.'
+    : `⏱️ Test timed out.${data.timeout ? ` ${this.describeTimeout(data.timeout)}` : ''}`}
 `;
   }
 
+  /**
+   * What came of a step's action, e.g. `Executed (role locator), page changed`
+   * or `Failed: Element 3 not found`.
+   */
+  private static describeOutcome(step: ReportData['steps'][number]): string {
+    if (step.error) {
+      return `Failed: ${step.error}`;
+    }
+    if (!step.executed) {
+      return 'Not executed, the run ended at this step';
+    }
+    const strategy = step.strategy ? ` (${step.strategy} locator)` : '';
+    const changed = step.changes ? (isEmptyDiff(step.changes) ? ', no visible change' : ', page changed') : '';
+    return `Executed${strategy}${changed}`;
+  }
+
+  private static markdownChanges(changes: DOMDiff): string {
+    const lines = describePageChanges(changes);
+    return lines.length > 0
+      ? lines.map(line => `- \`${line}\``).join('\n')
+      : '- None, the action had no visible effect';
+  }
+
+  private static describeTimeout(timeout: TimeoutInfo): string {
+    const limit = timeout.limit === 'run' ? 'run timeout' : timeout.limit === 'step' ? 'step timeout' : 'runner request timeout';
+    const phase = timeout.phase ? ` during the ${timeout.phase === 'llm' ? 'LLM call' : timeout.phase} phase` : '';
+    return `Hit the ${Math.round(timeout.timeoutMs / 1000)}s ${limit}${phase}.`;
+  }
+
+  private static renderTimelineEntry(entry: TimelineEntry, runStart: number): string {
+    const step = entry.step;
+    const offset = `+${((entry.startTime - runStart) / 1000).toFixed(1)}s`;
+    const events = [
+      ...entry.consoleErrors.map(error => this.renderEvent('console', 'error', error)),
+      ...entry.networkEntries.map(request => this.renderEvent(
+        'network',
+        isFailedRequest(request) ? 'error' : 'info',
+        `${request.method} ${request.url} ${this.networkStatus(request)}`
+      )),
+      ...entry.backendLogs.map(log => this.renderEvent('backend', log.level, `[${log.source}] ${log.message}`))
+    ];
+
+    return `
+                <div class="step${entry.hasError ? ' has-error' : ''}"${step ? ` id="step-${step.stepNumber}"` : ''}>
+                    <div class="step-number">${step ? `Step ${step.stepNumber}` : 'Setup'}<span class="time">${offset}</span></div>
+                    ${step?.thought ? `<div class="thought">💭 ${this.escapeHtml(step.thought)}</div>` : ''}
+                    ${step ? `<div class="action">
+                        ${step.action.type.toUpperCase()}: ${this.escapeHtml(step.action.target || actionTarget(step.action))}${step.action.text ? ` - "${this.escapeHtml(step.action.text)}"` : ''}
+                    </div>` : ''}
+                    ${step?.error ? `<div class="step-error">⚠️ ${this.escapeHtml(this.describeOutcome(step))}</div>` : ''}
+                    ${step && !step.error ? `<div class="step-outcome">${this.escapeHtml(this.describeOutcome(step))}</div>` : ''}
+                    ${step ? `<div class="observation">
+                        <div class="observation-item"><strong>URL:</strong> ${this.escapeHtml(step.observation.state.url)}</div>
+                        <div class="observation-item"><strong>Title:</strong> ${this.escapeHtml(step.observation.state.title)}</div>
+                        <div class="observation-item"><strong>Clickable Elements:</strong> ${step.observation.dom.filter(e => e.clickable).length}</div>
+                        ${step.observation.screenshot ? `<details class="screenshot">
+                            <summary>Screenshot</summary>
+                            <img loading="lazy" alt="Page at step ${step.stepNumber}" src="data:image/png;base64,${step.observation.screenshot}">
+                        </details>` : ''}
+                    </div>` : ''}
+                    ${step?.changes ? this.renderChanges(step.changes) : ''}
+                    ${events.length > 0 ? `<div class="events">${events.join('')}</div>` : ''}
+                </div>
+            `;
+  }
+
+  private static renderChanges(changes: DOMDiff): string {
+    const lines = describePageChanges(changes);
+    if (lines.length === 0) {
+      return `<div class="changes unchanged"><strong>Page changes:</strong> none, the action had no visible effect</div>`;
+    }
+    return `<div class="changes"><strong>Page changes:</strong>
+                        <ul>${lines.map(line => `<li>${this.escapeHtml(line)}</li>`).join('')}</ul>
+                    </div>`;
+  }
+
+  private static renderEvent(kind: 'console' | 'network' | 'backend', level: string, text: string): string {
+    const levelClass = level === 'error' ? ' event-error' : level === 'warn' ? ' event-warn' : '';
+    return `
+                        <div class="event${levelClass}" data-kind="${kind}"><span class="kind">${kind}</span>${this.escapeHtml(text)}</div>`;
+  }
+
+  private static renderVerification(verification: VerificationResult): string {
+    const { verdict } = verification;
+    const cited = this.citedEvidence(verification);
+    return `
+        <div class="verification">
+            <h2>Verification</h2>
+            <p><strong>Claim:</strong> ${this.escapeHtml(verification.claim)}</p>
+            <p><strong>Verdict:</strong> ${verdict.status.replace('_', ' ')} (confidence ${verdict.confidence.toFixed(2)})</p>
+            <p><strong>Reasoning:</strong> ${this.escapeHtml(verdict.reasoning)}</p>
+            ${cited.length > 0 ? `<ul>
+                ${cited.map(({ id, explanation, evidence }) => `<li><strong>[${id}]</strong> ${this.escapeHtml(evidence?.description || '')}${explanation ? `<br><em>${this.escapeHtml(explanation)}</em>` : ''}</li>`).join('')}
+            </ul>` : '<p>No evidence cited.</p>'}
+            <details>
+                <summary>All evidence shown to the verifier (${verification.evidence.length})</summary>
+                <ul>
+                    ${verification.evidence.map(item => `<li>[${item.id}]${item.stepNumber !== undefined ? ` Step ${item.stepNumber}` : ''} · ${item.kind}: ${this.escapeHtml(item.description)}</li>`).join('')}
+                </ul>
+            </details>
+        </div>`;
+  }
+
+  private static citedEvidence(verification: VerificationResult) {
+    return verification.verdict.citedEvidence.map(cited => ({
+      ...cited,
+      evidence: verification.evidence.find(item => item.id === cited.id)
+    }));
+  }
+
+  private static describeBackendLog(entry: StepBackendLogEntry): string {
+    const step = entry.stepNumber !== undefined ? `Step ${entry.stepNumber}` : 'Setup';
+    return `${step} · ${entry.level.toUpperCase()} [${entry.source}] ${entry.message}`;
+  }
+
+  private static networkStatus(entry: NetworkEntry): string {
+    if (entry.status) return `(${entry.status})`;
+    return entry.failure ? `(failed: ${entry.failure})` : '(pending)';
+  }
+
   private static escapeHtml(text: string): string {
     const map: Record<string, string> = {
       '&': '&amp;',
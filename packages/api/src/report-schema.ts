@@ -0,0 +1,98 @@
+import { AgentAction } from '@bugbot/agent';
+import { BackendLogLevel, LocatorCandidate } from '@bugbot/runner';
+import { TimeoutInfo } from './timeouts';
+import { VerificationResult } from './verification';
+
+/**
+ * Version of the `report.json` format. Bump it when a field is removed, renamed
+ * or changes meaning; adding optional fields doesn't need a new version.
+ */
+export const REPORT_SCHEMA_VERSION = 2;
+
+export interface JsonReportStep {
+  stepNumber: number;
+  thought?: string;
+  action: AgentAction;
+  observation: {
+    url: string;
+    title: string;
+    elementCount: number;
+    clickableCount: number;
+    consoleErrorCount: number;
+  };
+  /** What came of the action; unset in reports written before it was added */
+  outcome?: {
+    executed: boolean;
+    /** Why the runner could not carry it out */
+    error?: string;
+    /** Locator strategy the target was resolved with */
+    strategy?: LocatorCandidate['strategy'];
+    /** Whether the page changed afterwards; unset when it wasn't observed */
+    pageChanged?: boolean;
+  };
+  /**
+   * How the executed action changed the page, one line per change (`+` added,
+   * `-` removed, `~` changed element); empty if it changed nothing
+   */
+  changes?: string[];
+}
+
+/**
+ * Machine-readable counterpart of the HTML and Markdown reports, written as `report.json`.
+ */
+export interface JsonReport {
+  schemaVersion: number;
+  runId: string;
+  bugDescription: string;
+  targetUrl: string;
+  /** Since version 2, `reproduced` means verified and unverified claims are `inconclusive` */
+  status: 'reproduced' | 'failed' | 'inconclusive' | 'timeout';
+  reason?: string;
+  timeout?: TimeoutInfo;
+  /** What stopped the run, for runs ended by an error rather than a result */
+  error?: string;
+  verification?: VerificationResult;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  steps: JsonReportStep[];
+  console: {
+    errorCount: number;
+    errors: string[];
+  };
+  network: {
+    requestCount: number;
+    /** Requests answered with a 4xx/5xx status */
+    failedRequests: Array<{ method: string; url: string; status: number }>;
+    /** Requests that failed without a response, e.g. DNS errors, refused connections or aborts */
+    erroredRequests?: Array<{ method: string; url: string; failure: string }>;
+    /** Requests that were still in flight when the run ended */
+    pendingCount: number;
+  };
+  /** Lines logged by the application under test, when the runner has backend log sources */
+  backendLogs?: {
+    count: number;
+    errorCount: number;
+    entries: Array<{
+      timestamp: string;
+      /** Unset for lines logged before the first step */
+      stepNumber?: number;
+      source: string;
+      level: BackendLogLevel;
+      message: string;
+    }>;
+  };
+  artifacts: {
+    runDir: string;
+    htmlReport: string;
+    markdownReport: string;
+    jsonReport: string;
+    trace: string;
+    har: string;
+    consoleLog: string;
+    backendLog?: string;
+    stepLog: string;
+    video: string | null;
+    spec: string | null;
+  };
+}
@@ -21,6 +21,8 @@ export async function runBugBot(config: OrchestratorConfig): Promise<void> {
     console.log(chalk.blue(`📊 Report: ${reportPath}\n`));
     if (report.status === 'reproduced') {
       console.log(chalk.green('🎉 Bug was successfully reproduced!'));
+    } else if (report.status === 'inconclusive') {
+      console.log(chalk.cyan('❔ The run claimed a reproduction, but the verifier found the evidence insufficient.'));
     } else if (report.status === 'timeout') {
       console.log(chalk.yellow('⏱️  Test timed out before completion.'));
     } else {
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import { AgentAction, AgentResponse } from '@bugbot/agent';
+import { DOMDiff, LocatorCandidate } from '@bugbot/runner';
+import { ArtifactPaths } from './artifact-manager';
+import { JobStatus } from './job-store';
+import { ReportData } from './report-generator';
+import { StepObservationSummary } from './step-log';
+
+/** Phase a run is in, followed by its outcome once it ends */
+export type RunPhaseStatus = 'running' | 'verifying' | ReportData['status'];
+
+/**
+ * What happens during a run, by event type. The orchestrator emits all but
+ * `job`, which the run queue adds for queueing, retries and cancellation.
+ */
+export interface RunEventData {
+  /** A step began */
+  step: { stepNumber: number; maxSteps: number };
+  /** The page was captured for a step; `screenshot` is a base64 PNG */
+  observation: StepObservationSummary & {
+    stepNumber: number;
+    screenshot?: string;
+    /** How the previous step's action changed the page */
+    changes?: DOMDiff;
+  };
+  /** The agent chose its next action, or concluded the run */
+  decision: {
+    stepNumber: number;
+    action: AgentAction;
+    thought?: string;
+    status: NonNullable<AgentResponse['status']>;
+    reason?: string;
+  };
+  /** A chosen action was carried out, or failed */
+  action: {
+    stepNumber: number;
+    action: AgentAction;
+    executed: boolean;
+    error?: string;
+    strategy?: LocatorCandidate['strategy'];
+  };
+  /** The run moved to another phase, or ended with an outcome */
+  status: { status: RunPhaseStatus; reason?: string };
+  /** Reports and other artifacts were written */
+  artifacts: { artifacts: ArtifactPaths };
+  /** The job's status in the run queue changed */
+  job: { status: JobStatus; attempt: number; error?: string; notBefore?: string };
+}
+
+export type RunEventType = keyof RunEventData;
+
+export const RUN_EVENT_TYPES: RunEventType[] = ['step', 'observation', 'decision', 'action', 'status', 'artifacts', 'job'];
+
+export type RunEvent<K extends RunEventType = RunEventType> = {
+  [T in K]: { type: T; runId: string; at: string; data: RunEventData[T] };
+}[K];
+
+/**
+ * Typed events of one or more runs. Listeners run synchronously as the run
+ * goes on, so they should hand slow work off rather than block it.
+ */
+export class RunEventEmitter {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every watcher of a run (e.g. each open event stream) is a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit<K extends RunEventType>(runId: string, type: K, data: RunEventData[K]): void {
+    const event = { type, runId, at: new Date().toISOString(), data } as RunEvent<K>;
+    this.emitter.emit(type, event);
+    this.emitter.emit('*', event);
+  }
+
+  /** Forwards an event as is, e.g. from a run's own emitter to a shared one */
+  forward(event: RunEvent): void {
+    this.emitter.emit(event.type, event);
+    this.emitter.emit('*', event);
+  }
+
+  /** Listens to one event type; returns a function that stops listening */
+  on<K extends RunEventType>(type: K, listener: (event: RunEvent<K>) => void): () => void {
+    this.emitter.on(type, listener);
+    return () => this.emitter.off(type, listener);
+  }
+
+  /** Listens to every event; returns a function that stops listening */
+  onAny(listener: (event: RunEvent) => void): () => void {
+    this.emitter.on('*', listener);
+    return () => this.emitter.off('*', listener);
+  }
+}
@@ -0,0 +1,291 @@
+import * as crypto from 'crypto';
+import chalk from 'chalk';
+import { Orchestrator, OrchestratorConfig } from './orchestrator';
+import { ReportData } from './report-generator';
+import { StepLogEntry } from './step-log';
+import { JobRecord, JobStatus, JobStore } from './job-store';
+import { RunEventEmitter } from './run-events';
+import { isRunnerFailure } from './runner-client';
+import { WebhookIssue } from './webhooks/types';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 30 * 1000;
+
+export type QueuedRunStatus = JobStatus;
+
+export interface QueuedRun extends Omit<JobRecord, 'config'> {
+  config: OrchestratorConfig;
+  /** Set once the run completed, until the process restarts */
+  report?: ReportData;
+}
+
+export interface RunQueueOptions {
+  /** Runs executed at the same time, each in its own runner session (default: 1) */
+  concurrency?: number;
+  /** Called when a run completes or fails for good, e.g. to post its result; errors are logged */
+  onFinished?: (run: QueuedRun) => Promise<void>;
+  /** Where jobs are recorded; without one, jobs only live in memory */
+  store?: JobStore;
+  /** Attempts per job before a runner failure is final (default: 3) */
+  maxAttempts?: number;
+  /** Wait before the first retry, doubled for each further one (default: 30s) */
+  retryDelayMs?: number;
+  /** Resolves a provider's API key for jobs restored from the store, which don't keep keys */
+  apiKeyFor?: (provider: string) => string | undefined;
+}
+
+/**
+ * Runs reproductions in the background, a bounded number at a time, so callers
+ * such as webhook handlers can return as soon as a run is queued.
+ *
+ * Runs stopped by the runner failing (the runner unreachable, the browser
+ * crashing or the target app failing to load, see `isRunnerFailure`) are
+ * retried with a growing delay. Other errors, such as the LLM provider
+ * rejecting its API key, end the run right away since they would only happen
+ * again. With a store, every status change is recorded, and `restore()` picks
+ * up queued runs, and runs interrupted while running, after a restart.
+ */
+export class RunQueue {
+  /** Events of every run: the orchestrators' as they run, and `job` for each status change */
+  readonly events = new RunEventEmitter();
+  private runs = new Map<string, QueuedRun>();
+  /** Orchestrators of the runs in progress */
+  private orchestrators = new Map<string, Orchestrator>();
+  /** Runs in progress that were asked to stop */
+  private cancelling = new Set<string>();
+  private active = 0;
+  private concurrency: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private options: RunQueueOptions;
+
+  constructor(options: RunQueueOptions = {}) {
+    this.options = options;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.retryDelayMs = Math.max(0, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Loads the store's jobs and queues again those that hadn't finished. A job
+   * that was running when the process stopped counts as a failed attempt.
+   * Returns the number of jobs queued again.
+   */
+  async restore(): Promise<number> {
+    if (!this.options.store) {
+      return 0;
+    }
+    let resumed = 0;
+    for (const record of await this.options.store.load()) {
+      const run: QueuedRun = {
+        ...record,
+        config: { ...record.config, apiKey: this.options.apiKeyFor?.(record.config.provider || 'gemini') }
+      };
+      this.runs.set(run.id, run);
+      if (run.status === 'running') {
+        this.failAttempt(run, 'Interrupted: the service stopped while the run was in progress');
+      } else if (run.status === 'queued') {
+        // A retry whose delay ran out while the service was down can start right away
+        this.scheduleAt(run);
+      }
+      if (run.status === 'queued') {
+        resumed++;
+      }
+    }
+    await this.persist();
+    this.drain();
+    return resumed;
+  }
+
+  enqueue(config: OrchestratorConfig, issue?: WebhookIssue): QueuedRun {
+    const now = new Date().toISOString();
+    const run: QueuedRun = {
+      id: `run-${Date.now()}-${crypto.randomBytes(2).toString('hex')}`,
+      config,
+      issue,
+      status: 'queued',
+      attempts: 0,
+      transitions: [{ status: 'queued', at: now, attempt: 0 }],
+      queuedAt: now
+    };
+    this.runs.set(run.id, run);
+    this.persist();
+    this.drain();
+    return run;
+  }
+
+  get(id: string): QueuedRun | undefined {
+    return this.runs.get(id);
+  }
+
+  list(): QueuedRun[] {
+    return [...this.runs.values()];
+  }
+
+  /** Steps a running run has taken so far; undefined for runs that aren't running */
+  steps(id: string): StepLogEntry[] | undefined {
+    return this.orchestrators.get(id)?.getSteps();
+  }
+
+  /**
+   * Cancels a queued run, or stops a running one at its current phase (its
+   * artifacts and report are still written). Cancelled runs aren't retried or
+   * published. Returns false for unknown runs and runs that already ended.
+   */
+  cancel(id: string): boolean {
+    const run = this.runs.get(id);
+    if (!run || (run.status !== 'queued' && run.status !== 'running')) {
+      return false;
+    }
+    if (run.status === 'queued') {
+      run.notBefore = undefined;
+      this.transition(run, 'cancelled');
+      run.endedAt = new Date().toISOString();
+      this.persist();
+      console.log(chalk.yellow(`■ CANCELLED ${run.id}`));
+    } else {
+      this.cancelling.add(id);
+      this.orchestrators.get(id)?.cancel();
+    }
+    return true;
+  }
+
+  /**
+   * The queued or running run for an issue, if any, so repeated deliveries of
+   * the same issue don't start it twice.
+   */
+  findActive(source: string, issueId: string): QueuedRun | undefined {
+    return this.list().find(run =>
+      (run.status === 'queued' || run.status === 'running')
+      && run.issue?.source === source
+      && run.issue.id === issueId
+    );
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    const ready = this.list()
+      .filter(run => run.status === 'queued' && (!run.notBefore || Date.parse(run.notBefore) <= now))
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    while (this.active < this.concurrency && ready.length > 0) {
+      const run = ready.shift()!;
+      this.active++;
+      this.execute(run).finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private async execute(run: QueuedRun): Promise<void> {
+    run.attempts++;
+    run.notBefore = undefined;
+    this.transition(run, 'running');
+    run.startedAt = new Date().toISOString();
+    await this.persist();
+    const attempt = run.attempts > 1 ? ` (attempt ${run.attempts}/${this.maxAttempts})` : '';
+    console.log(chalk.cyan(`▶ Starting ${run.id}${run.issue ? ` for ${run.issue.source} issue ${run.issue.id}` : ''}${attempt}`));
+
+    let orchestrator: Orchestrator | null = null;
+    let stopForwarding: (() => void) | undefined;
+    let report: ReportData | undefined;
+    let error: string | undefined;
+    let retryable = false;
+    try {
+      orchestrator = new Orchestrator(run.config, run.id);
+      this.orchestrators.set(run.id, orchestrator);
+      stopForwarding = orchestrator.events.onAny(event => this.events.forward(event));
+      if (this.cancelling.has(run.id)) {
+        orchestrator.cancel();
+      }
+      await orchestrator.initialize();
+      report = await orchestrator.execute();
+      error = report.error;
+      retryable = !!report.retryable;
+    } catch (caught: any) {
+      error = caught.message;
+      retryable = isRunnerFailure(caught);
+      // execute() closes the browser itself; a failed initialize() may leave it open
+      await orchestrator?.close().catch(() => {});
+    } finally {
+      stopForwarding?.();
+      this.orchestrators.delete(run.id);
+    }
+
+    if (report) {
+      run.report = report;
+      run.result = { status: report.status, reason: report.reason, steps: report.steps.length };
+      run.artifacts = report.artifacts;
+    }
+    if (this.cancelling.delete(run.id)) {
+      this.transition(run, 'cancelled');
+      run.endedAt = new Date().toISOString();
+      await this.persist();
+      console.log(chalk.yellow(`■ CANCELLED ${run.id}`));
+      return;
+    }
+    if (error && retryable && run.attempts < this.maxAttempts) {
+      this.failAttempt(run, error);
+      console.log(chalk.yellow(`↻ ${run.id} failed, retrying after ${run.notBefore}: ${error}`));
+      await this.persist();
+      return;
+    }
+
+    run.error = error;
+    // A run that produced a report has a result to show, even if an error ended it
+    this.transition(run, report ? 'completed' : 'error', report ? undefined : error);
+    run.endedAt = new Date().toISOString();
+    await this.persist();
+
+    const outcome = run.report?.status || 'error';
+    const color = outcome === 'reproduced' ? chalk.green : outcome === 'error' ? chalk.red : chalk.yellow;
+    console.log(color(`■ ${outcome.toUpperCase()} ${run.id}${run.error ? `: ${run.error}` : ''}`));
+
+    await this.options.onFinished?.(run).catch((error: any) => {
+      console.error(chalk.red(`After ${run.id} finished: ${error.message}`));
+    });
+  }
+
+  /** Queues a failed attempt again after the retry delay, or ends the job once attempts run out */
+  private failAttempt(run: QueuedRun, error: string): void {
+    run.error = error;
+    if (run.attempts >= this.maxAttempts) {
+      this.transition(run, 'error', error);
+      run.endedAt = new Date().toISOString();
+      return;
+    }
+    run.notBefore = new Date(Date.now() + this.retryDelayMs * 2 ** (run.attempts - 1)).toISOString();
+    this.transition(run, 'queued', error);
+    this.scheduleAt(run);
+  }
+
+  /** Makes sure the queue looks at a delayed retry once its time comes */
+  private scheduleAt(run: QueuedRun): void {
+    if (!run.notBefore) {
+      return;
+    }
+    const delay = Date.parse(run.notBefore) - Date.now();
+    if (delay > 0) {
+      setTimeout(() => this.drain(), delay).unref();
+    }
+  }
+
+  private transition(run: QueuedRun, status: JobStatus, error?: string): void {
+    run.status = status;
+    run.transitions.push({ status, at: new Date().toISOString(), attempt: run.attempts, error });
+    this.events.emit(run.id, 'job', { status, attempt: run.attempts, error, notBefore: run.notBefore });
+  }
+
+  private persist(): Promise<void> {
+    if (!this.options.store) {
+      return Promise.resolve();
+    }
+    const records: JobRecord[] = this.list().map(({ report: _report, config: { apiKey: _apiKey, ...config }, ...record }) => ({
+      ...record,
+      config
+    }));
+    return this.options.store.save(records).catch(error => {
+      console.error(chalk.red(`Could not write the job store ${this.options.store!.getPath()}: ${error.message}`));
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OrchestratorConfig } from './orchestrator';
+import { resolveRunConfig } from './run-settings';
+
+const defaults: Omit<OrchestratorConfig, 'bugDescription'> = {
+  runnerUrl: 'http://localhost:3001',
+  targetUrl: 'http://localhost:3000',
+  maxSteps: 25,
+  timeout: 300000,
+  provider: 'gemini',
+  model: 'gemini-default',
+  verify: true
+};
+
+const apiKeyFor = (provider: string) => `${provider}-key`;
+
+test('settings left undefined keep the defaults', () => {
+  const config = resolveRunConfig(defaults, { maxSteps: undefined, verify: undefined }, 'Bug', apiKeyFor);
+  assert.equal(config.maxSteps, 25);
+  assert.equal(config.verify, true);
+  assert.equal(config.model, 'gemini-default');
+  assert.equal(config.apiKey, 'gemini-key');
+});
+
+test('naming the default provider keeps the default model', () => {
+  const config = resolveRunConfig(defaults, { provider: 'gemini' }, 'Bug', apiKeyFor);
+  assert.equal(config.provider, 'gemini');
+  assert.equal(config.model, 'gemini-default');
+});
+
+test('another provider takes its own default model and API key', () => {
+  const config = resolveRunConfig(defaults, { provider: 'anthropic' }, 'Bug', apiKeyFor);
+  assert.equal(config.provider, 'anthropic');
+  assert.equal(config.model, undefined);
+  assert.equal(config.apiKey, 'anthropic-key');
+});
+
+test('a model in the settings is used with any provider', () => {
+  const config = resolveRunConfig(defaults, { provider: 'anthropic', model: 'claude-model' }, 'Bug', apiKeyFor);
+  assert.equal(config.model, 'claude-model');
+});
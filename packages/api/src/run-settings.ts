@@ -0,0 +1,33 @@
+import { OrchestratorConfig } from './orchestrator';
+
+/**
+ * Run settings a webhook route, an API request or a batch item can override;
+ * everything else comes from the service's defaults.
+ */
+export type RunSettings = Partial<Pick<OrchestratorConfig,
+  'targetUrl' | 'maxSteps' | 'provider' | 'model' | 'vision' | 'promptTokenBudget' | 'verify'>>;
+
+/**
+ * The config of a run with `settings` applied over the service's `defaults`. A
+ * provider other than the default one doesn't take the default model, and gets
+ * its own API key. Settings that are undefined keep the default.
+ */
+export function resolveRunConfig(
+  defaults: Omit<OrchestratorConfig, 'bugDescription'>,
+  settings: RunSettings,
+  bugDescription: string,
+  apiKeyFor: (provider: string) => string | undefined
+): OrchestratorConfig {
+  const defaultProvider = defaults.provider || 'gemini';
+  const provider = settings.provider || defaultProvider;
+  const overrides = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+  return {
+    ...defaults,
+    ...overrides,
+    bugDescription,
+    targetUrl: settings.targetUrl || defaults.targetUrl,
+    provider,
+    model: settings.model || (provider !== defaultProvider ? undefined : defaults.model),
+    apiKey: apiKeyFor(provider)
+  };
+}
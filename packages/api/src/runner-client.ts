@@ -0,0 +1,221 @@
+import axios from 'axios';
+import { AgentAction } from '@bugbot/agent';
+import { ActionResult, BackendLogEntry, BrowserState, DOMElement, LocatorCandidate, NetworkEntry, SESSION_HEADER } from '@bugbot/runner';
+import { TimeoutError } from './timeouts';
+
+/** Longest a single runner request may take, unless the client is given another limit */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 60 * 1000;
+
+const WAIT_ACTION_MS = 2000;
+
+/**
+ * Locators recorded by a previous run for an action's target and, for drags, its drop target.
+ */
+export interface RecordedLocators {
+  locator?: LocatorCandidate;
+  toLocator?: LocatorCandidate;
+}
+
+/**
+ * Thin wrapper around the runner server's REST API. Each client drives its own
+ * browser session, created by `init` and ended by `close`. Requests that take a
+ * `signal` are cancelled when it is aborted, e.g. by `withDeadline` once a phase
+ * runs out of time.
+ */
+export class RunnerClient {
+  private baseUrl: string;
+  private requestTimeoutMs: number;
+  private sessionId: string | null = null;
+
+  constructor(baseUrl: string, requestTimeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS) {
+    this.baseUrl = baseUrl;
+    this.requestTimeoutMs = requestTimeoutMs;
+  }
+
+  async init(headless: boolean): Promise<void> {
+    try {
+      const data = await this.post('/init', { headless });
+
+      if (!data.success) {
+        throw new Error('Browser initialization failed');
+      }
+      this.sessionId = data.sessionId;
+    } catch (error: any) {
+      if (error instanceof TimeoutError) {
+        throw error;
+      }
+      const errorMsg = error.response?.data?.error || error.message;
+      throw new Error(`Failed to initialize browser: ${errorMsg}. Make sure Playwright browsers are installed: npx playwright install chromium`, { cause: error });
+    }
+  }
+
+  async navigate(url: string, signal?: AbortSignal): Promise<void> {
+    // The runner gives up on the page load just as this request times out
+    await this.post('/navigate', { url, timeout: this.requestTimeoutMs }, signal);
+  }
+
+  async getDOM(signal?: AbortSignal): Promise<DOMElement[]> {
+    return this.get('/dom', undefined, signal);
+  }
+
+  async getState(signal?: AbortSignal): Promise<BrowserState> {
+    return this.get('/state', undefined, signal);
+  }
+
+  async getScreenshot(annotate: boolean = false, signal?: AbortSignal): Promise<string | undefined> {
+    const data = await this.get('/screenshot', annotate ? { annotate: 'true' } : undefined, signal);
+    return data.screenshot;
+  }
+
+  async getNetwork(signal?: AbortSignal): Promise<NetworkEntry[]> {
+    return this.get('/network', undefined, signal);
+  }
+
+  /**
+   * Backend log entries logged since this client's session started.
+   */
+  async getBackendLogs(signal?: AbortSignal): Promise<BackendLogEntry[]> {
+    const data = await this.get('/backend-logs', undefined, signal);
+    return data.backendLogs;
+  }
+
+  /**
+   * Executes an action. Locators recorded by a previous run take precedence over
+   * the action's element ids, which are only meaningful within the run that produced them.
+   */
+  async executeAction(action: AgentAction, recorded: RecordedLocators = {}, signal?: AbortSignal): Promise<ActionResult> {
+    const target = recorded.locator
+      ? { locator: recorded.locator }
+      : { elementId: action.elementId, selector: action.selector };
+
+    switch (action.type) {
+      case 'click':
+        return this.action('click', target, signal);
+      case 'input':
+        return this.action('input', { ...target, text: action.text }, signal);
+      case 'select':
+        return this.action('select', { ...target, value: action.value }, signal);
+      case 'hover':
+        return this.action('hover', target, signal);
+      case 'keypress':
+        return this.action('keypress', { ...target, key: action.key }, signal);
+      case 'scroll':
+        return this.action('scroll', { ...target, direction: action.direction }, signal);
+      case 'check':
+        return this.action('check', { ...target, checked: action.checked }, signal);
+      case 'drag':
+        return this.action('drag', {
+          ...target,
+          to: recorded.toLocator ? { locator: recorded.toLocator } : { elementId: action.toElementId }
+        }, signal);
+      case 'upload':
+        return this.action('upload', {
+          ...target,
+          file: action.fileName ? { name: action.fileName, content: action.fileContent } : undefined
+        }, signal);
+      case 'wait':
+        await delay(WAIT_ACTION_MS, signal);
+        return {};
+      case 'navigate':
+        if (action.url) {
+          await this.navigate(action.url, signal);
+        }
+        return {};
+      default:
+        throw new Error(`Unknown action type: ${(action as any).type}`);
+    }
+  }
+
+  private async action(type: string, body: object, signal?: AbortSignal): Promise<ActionResult> {
+    const data = await this.post(`/action/${type}`, body, signal);
+    return {
+      strategy: data.strategy,
+      locator: data.locator,
+      resolvedSelector: data.resolvedSelector,
+      dropTarget: data.dropTarget
+    };
+  }
+
+  /**
+   * Stops tracing and returns the path of the recorded video, if any.
+   */
+  async stop(tracingPath: string, signal?: AbortSignal): Promise<string | null> {
+    const data = await this.post('/stop', { tracingPath }, signal);
+    return data.videoPath;
+  }
+
+  async close(signal?: AbortSignal): Promise<void> {
+    if (!this.sessionId) return;
+    await this.post('/close', {}, signal);
+    this.sessionId = null;
+  }
+
+  private async get(path: string, params?: Record<string, string>, signal?: AbortSignal): Promise<any> {
+    try {
+      const response = await axios.get(`${this.baseUrl}${path}`, { ...this.requestConfig(signal), params });
+      return response.data;
+    } catch (error: any) {
+      throw this.requestError(error);
+    }
+  }
+
+  private async post(path: string, body: object, signal?: AbortSignal): Promise<any> {
+    try {
+      const response = await axios.post(`${this.baseUrl}${path}`, body, this.requestConfig(signal));
+      return response.data;
+    } catch (error: any) {
+      throw this.requestError(error);
+    }
+  }
+
+  private requestConfig(signal?: AbortSignal) {
+    return {
+      headers: { [SESSION_HEADER]: this.sessionId || '' },
+      timeout: this.requestTimeoutMs,
+      signal
+    };
+  }
+
+  // Axios reports its own timeouts as ECONNABORTED; everything else is passed through as is
+  private requestError(error: any): Error {
+    if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+      return new TimeoutError('request', this.requestTimeoutMs);
+    }
+    return error;
+  }
+}
+
+/**
+ * Whether an error comes from the runner failing rather than from what was asked
+ * of it: the runner couldn't be reached, no longer knows the session (it restarted
+ * or reaped it) or failed with a server error. Running again may succeed.
+ */
+export function isRunnerFailure(error: any): boolean {
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    return !axios.isCancel(error) && (status === undefined || status === 404 || status >= 500);
+  }
+  // Errors raised about a failed request (e.g. by `init`) keep it as their cause
+  return error?.cause ? isRunnerFailure(error.cause) : false;
+}
+
+/**
+ * Waits `ms`, or rejects as a cancelled request does once `signal` is aborted.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
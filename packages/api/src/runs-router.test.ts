@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { OrchestratorConfig } from './orchestrator';
+import { RunQueue } from './run-queue';
+import { createRunsRouter } from './runs-router';
+
+const defaults: Omit<OrchestratorConfig, 'bugDescription'> = {
+  runnerUrl: 'http://localhost:3001',
+  targetUrl: 'http://localhost:3000',
+  maxSteps: 25,
+  timeout: 300000,
+  provider: 'gemini',
+  model: 'gemini-default',
+  vision: true,
+  verify: true
+};
+
+/** Starts the runs API with `queue` and calls `send` with its base URL */
+async function withRouter<T>(queue: RunQueue, send: (baseUrl: string) => Promise<T>): Promise<T> {
+  const app = express().use(createRunsRouter({ queue, defaults, apiKeyFor: () => 'key' }));
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    return await send(`http://localhost:${port}`);
+  } finally {
+    server.close();
+  }
+}
+
+/** Posts `body` to `POST /runs` and returns the config the run was queued with */
+async function queuedConfig(body: object): Promise<OrchestratorConfig> {
+  let queued: OrchestratorConfig | undefined;
+  const queue = {
+    enqueue: (config: OrchestratorConfig) => {
+      queued = config;
+      return { id: 'run-1', status: 'queued' };
+    }
+  } as unknown as RunQueue;
+  const response = await withRouter(queue, baseUrl => fetch(`${baseUrl}/runs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }));
+  assert.equal(response.status, 202);
+  assert.ok(queued);
+  return queued;
+}
+
+/** Lists runs with the query string `query`, out of `count` queued runs */
+async function listRuns(query: string, count: number): Promise<Response> {
+  const runs = Array.from({ length: count }, (_, i) => ({
+    id: `run-${i}`,
+    status: 'queued',
+    config: { ...defaults, bugDescription: `Bug ${i}` },
+    attempts: 0,
+    queuedAt: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()
+  }));
+  const queue = { list: () => runs } as unknown as RunQueue;
+  return withRouter(queue, baseUrl => fetch(`${baseUrl}/runs${query}`));
+}
+
+test('a run with only a bug description takes the service defaults', async () => {
+  const config = await queuedConfig({ bugDescription: 'The cart total is wrong' });
+  assert.equal(config.bugDescription, 'The cart total is wrong');
+  assert.equal(config.maxSteps, defaults.maxSteps);
+  assert.equal(config.verify, defaults.verify);
+  assert.equal(config.vision, defaults.vision);
+  assert.equal(config.targetUrl, defaults.targetUrl);
+  assert.equal(config.model, defaults.model);
+});
+
+test('settings in the request override the defaults', async () => {
+  const config = await queuedConfig({ bugDescription: 'The cart total is wrong', maxSteps: 5, verify: false });
+  assert.equal(config.maxSteps, 5);
+  assert.equal(config.verify, false);
+  assert.equal(config.vision, defaults.vision);
+});
+
+test('listing runs returns up to the limit, newest first', async () => {
+  const response = await listRuns('?limit=2', 3);
+  assert.equal(response.status, 200);
+  const { runs } = await response.json() as { runs: Array<{ id: string }> };
+  assert.deepEqual(runs.map(run => run.id), ['run-2', 'run-1']);
+});
+
+test('a limit that is not a positive integer is rejected', async () => {
+  for (const limit of ['-1', '0', '2.5', 'all']) {
+    const response = await listRuns(`?limit=${limit}`, 3);
+    assert.equal(response.status, 400, `limit=${limit}`);
+  }
+});
@@ -0,0 +1,331 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { getProviderDefinition, listProviders } from '@bugbot/agent';
+import { OrchestratorConfig } from './orchestrator';
+import { JobStatus } from './job-store';
+import { QueuedRun, RunQueue } from './run-queue';
+import { RunEvent } from './run-events';
+import { RunSettings, resolveRunConfig } from './run-settings';
+import { StepLog, StepLogEntry } from './step-log';
+
+const MAX_BODY_SIZE = '1mb';
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+const KEEP_ALIVE_MS = 15 * 1000;
+const ENDED_STATUSES: JobStatus[] = ['completed', 'error', 'cancelled'];
+
+/** Body of `POST /runs` */
+export interface RunRequest extends RunSettings {
+  bugDescription: string;
+}
+
+export interface RunsRouterOptions {
+  queue: RunQueue;
+  /** Settings for runs, before the request's overrides */
+  defaults: Omit<OrchestratorConfig, 'bugDescription'>;
+  /** Resolves the API key for a provider, so requests can use a different provider than the defaults */
+  apiKeyFor: (provider: string) => string | undefined;
+  /** Bearer token every request must send; without one, the API is open */
+  token?: string;
+}
+
+/** A run as listed by `GET /runs` */
+export interface RunSummary {
+  id: string;
+  status: QueuedRun['status'];
+  bugDescription: string;
+  targetUrl: string;
+  issue?: { source: string; id: string; url?: string };
+  attempts: number;
+  queuedAt: string;
+  startedAt?: string;
+  endedAt?: string;
+  /** Earliest start of a queued retry */
+  notBefore?: string;
+  result?: QueuedRun['result'];
+  error?: string;
+}
+
+/** A run as returned by `GET /runs/:id` */
+export interface RunDetails extends RunSummary {
+  config: Omit<OrchestratorConfig, 'apiKey'>;
+  transitions: QueuedRun['transitions'];
+  /** Steps taken so far while running, or all of them once the run ended */
+  steps: StepLogEntry[];
+  /** URLs of the run's artifacts that exist, by name (e.g. `report`, `har`, `tracing`, `video`) */
+  artifacts: Record<string, string>;
+}
+
+/**
+ * The runs API, for tools that trigger reproductions over HTTP rather than
+ * through the `bugbot` CLI:
+ *
+ * - `POST /runs` queues a run of `{ bugDescription, targetUrl?, maxSteps?, provider?, model?, vision?, promptTokenBudget?, verify? }`
+ * - `GET /runs` lists runs, newest first (`?status=running`, `?limit=20`, at most 500)
+ * - `GET /runs/:id` shows a run with its steps so far
+ * - `GET /runs/:id/events` streams the run's events as Server-Sent Events until it ends
+ * - `GET /runs/:id/artifacts/<file>` downloads a file of the run's directory (report, HAR, trace, video)
+ * - `DELETE /runs/:id` cancels a queued or running run
+ */
+export function createRunsRouter(options: RunsRouterOptions): Router {
+  const { queue } = options;
+  const router = Router();
+  if (options.token) {
+    router.use('/runs', requireToken(options.token));
+  }
+
+  router.post('/runs', express.json({ limit: MAX_BODY_SIZE }), (req: Request, res: Response) => {
+    const problem = validateRunRequest(req.body);
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+    const { bugDescription, targetUrl, maxSteps, provider, model, vision, promptTokenBudget, verify } = req.body as RunRequest;
+    const config = resolveRunConfig(
+      options.defaults,
+      { targetUrl, maxSteps, provider, model, vision, promptTokenBudget, verify },
+      bugDescription,
+      options.apiKeyFor
+    );
+    const definition = getProviderDefinition(config.provider!)!;
+    if (definition.requiresApiKey && !config.apiKey) {
+      res.status(400).json({ error: `The service has no API key for ${config.provider}` });
+      return;
+    }
+
+    const run = queue.enqueue(config);
+    console.log(chalk.blue(`📥 Queued ${run.id} from the API: ${bugDescription.substring(0, 80)}`));
+    res.status(202).location(`/runs/${run.id}`).json({ runId: run.id, status: run.status });
+  });
+
+  router.get('/runs', (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    let limit = DEFAULT_LIST_LIMIT;
+    if (req.query.limit !== undefined) {
+      limit = Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        res.status(400).json({ error: `"limit" must be a positive integer (at most ${MAX_LIST_LIMIT})` });
+        return;
+      }
+    }
+    limit = Math.min(limit, MAX_LIST_LIMIT);
+    const runs = queue.list()
+      .filter(run => !status || run.status === status)
+      .sort((a, b) => b.queuedAt.localeCompare(a.queuedAt))
+      .slice(0, limit);
+    res.json({ runs: runs.map(runSummary) });
+  });
+
+  router.get('/runs/:id', async (req: Request, res: Response) => {
+    const run = queue.get(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: `Run ${req.params.id} not found` });
+      return;
+    }
+    res.json(await runDetails(run, queue));
+  });
+
+  router.get('/runs/:id/events', (req: Request, res: Response) => {
+    const run = queue.get(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: `Run ${req.params.id} not found` });
+      return;
+    }
+    streamRunEvents(run, queue, req, res);
+  });
+
+  router.get('/runs/:id/artifacts/*', (req: Request, res: Response) => {
+    const run = queue.get(req.params.id);
+    if (!run?.artifacts) {
+      res.status(404).json({ error: run ? `Run ${run.id} has no artifacts yet` : `Run ${req.params.id} not found` });
+      return;
+    }
+    // `root` keeps the path inside the run directory
+    res.sendFile(req.params[0], { root: run.artifacts.runDir, dotfiles: 'deny' }, error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: `No artifact ${req.params[0]} for run ${run.id}` });
+      }
+    });
+  });
+
+  router.delete('/runs/:id', (req: Request, res: Response) => {
+    const run = queue.get(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: `Run ${req.params.id} not found` });
+      return;
+    }
+    const wasRunning = run.status === 'running';
+    if (!queue.cancel(run.id)) {
+      res.status(409).json({ error: `Run ${run.id} already ended (${run.status})` });
+      return;
+    }
+    // A running run stops at its current phase, and is marked cancelled once its report is written
+    res.status(wasRunning ? 202 : 200).json({ runId: run.id, status: wasRunning ? 'cancelling' : run.status });
+  });
+
+  return router;
+}
+
+function requireToken(token: string) {
+  const expected = crypto.createHash('sha256').update(token).digest();
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization || '';
+    // EventSource can't send headers, so event streams may pass the token as `?token=`
+    const received = header.match(/^Bearer\s+(.*)$/i)?.[1] ?? (typeof req.query.token === 'string' ? req.query.token : undefined);
+    const given = crypto.createHash('sha256').update(received || '').digest();
+    if (received === undefined || !crypto.timingSafeEqual(given, expected)) {
+      res.status(401).json({ error: 'Missing or invalid bearer token' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Sends a run's events as Server-Sent Events (`event: <type>`, `data: <JSON>`),
+ * starting with a `job` event for where the run stands, and ends the stream once
+ * the run has ended. `?screenshots=false` leaves the step screenshots out.
+ */
+function streamRunEvents(run: QueuedRun, queue: RunQueue, req: Request, res: Response): void {
+  const screenshots = req.query.screenshots !== 'false';
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Keep proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+
+  let eventId = 0;
+  const send = (event: RunEvent) => {
+    const sent = !screenshots && event.type === 'observation'
+      ? { ...event, data: { ...event.data, screenshot: undefined } }
+      : event;
+    res.write(`id: ${++eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(sent)}\n\n`);
+  };
+  send({
+    type: 'job',
+    runId: run.id,
+    at: new Date().toISOString(),
+    data: { status: run.status, attempt: run.attempts, error: run.error, notBefore: run.notBefore }
+  });
+  if (ENDED_STATUSES.includes(run.status)) {
+    res.end();
+    return;
+  }
+
+  let closed = false;
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(keepAlive);
+    stopListening();
+    res.end();
+  };
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+  const stopListening = queue.events.onAny(event => {
+    if (event.runId !== run.id) {
+      return;
+    }
+    send(event);
+    if (event.type === 'job' && ENDED_STATUSES.includes(event.data.status)) {
+      close();
+    }
+  });
+  req.on('close', close);
+}
+
+/** Why a `POST /runs` body can't be run, if it can't */
+function validateRunRequest(body: any): string | undefined {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Body must be a JSON object';
+  }
+  if (typeof body.bugDescription !== 'string' || !body.bugDescription.trim()) {
+    return '"bugDescription" is required';
+  }
+  if (body.targetUrl !== undefined) {
+    let url: URL | undefined;
+    try {
+      url = new URL(body.targetUrl);
+    } catch {
+      // Reported below
+    }
+    if (url?.protocol !== 'http:' && url?.protocol !== 'https:') {
+      return `"targetUrl" must be an http(s) URL: ${body.targetUrl}`;
+    }
+  }
+  for (const field of ['maxSteps', 'promptTokenBudget']) {
+    if (body[field] !== undefined && !(Number.isInteger(body[field]) && body[field] > 0)) {
+      return `"${field}" must be a positive integer`;
+    }
+  }
+  for (const field of ['vision', 'verify']) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') {
+      return `"${field}" must be true or false`;
+    }
+  }
+  if (body.model !== undefined && typeof body.model !== 'string') {
+    return '"model" must be a string';
+  }
+  if (body.provider !== undefined && !getProviderDefinition(body.provider)) {
+    return `Unknown provider "${body.provider}". Available providers: ${listProviders().join(', ')}`;
+  }
+  return undefined;
+}
+
+function runSummary(run: QueuedRun): RunSummary {
+  return {
+    id: run.id,
+    status: run.status,
+    bugDescription: run.config.bugDescription,
+    targetUrl: run.config.targetUrl,
+    issue: run.issue && { source: run.issue.source, id: run.issue.id, url: run.issue.url },
+    attempts: run.attempts,
+    queuedAt: run.queuedAt,
+    startedAt: run.startedAt,
+    endedAt: run.endedAt,
+    notBefore: run.notBefore,
+    result: run.result,
+    error: run.error
+  };
+}
+
+async function runDetails(run: QueuedRun, queue: RunQueue): Promise<RunDetails> {
+  const { apiKey: _apiKey, ...config } = run.config;
+  return {
+    ...runSummary(run),
+    config,
+    transitions: run.transitions,
+    steps: queue.steps(run.id) || await savedSteps(run),
+    artifacts: await artifactUrls(run)
+  };
+}
+
+/** Steps from the step log of a run that ended, which outlives restarts */
+async function savedSteps(run: QueuedRun): Promise<StepLogEntry[]> {
+  if (!run.artifacts || !await fs.pathExists(run.artifacts.stepLogPath)) {
+    return [];
+  }
+  const stepLog: StepLog = await fs.readJSON(run.artifacts.stepLogPath).catch(() => ({ steps: [] }));
+  return stepLog.steps;
+}
+
+async function artifactUrls(run: QueuedRun): Promise<Record<string, string>> {
+  const urls: Record<string, string> = {};
+  if (!run.artifacts) {
+    return urls;
+  }
+  const { runDir, ...files } = run.artifacts;
+  for (const [key, file] of Object.entries(files)) {
+    if (file && await fs.pathExists(file)) {
+      const relative = path.relative(runDir, file).split(path.sep).join('/');
+      urls[key.replace(/Path$/, '')] = `/runs/${run.id}/artifacts/${relative}`;
+    }
+  }
+  return urls;
+}
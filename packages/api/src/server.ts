@@ -0,0 +1,34 @@
+import express, { Express } from 'express';
+import { WebhookRouterOptions, createWebhookRouter } from './webhooks';
+import { createRunsRouter } from './runs-router';
+
+export interface ServerOptions extends Omit<WebhookRouterOptions, 'config'> {
+  /** Webhook sources and routes; without it, no webhooks are accepted */
+  webhooks?: WebhookRouterOptions['config'];
+  /** Bearer token required by the runs API; without one, it is open */
+  apiToken?: string;
+}
+
+/**
+ * The BugBot service: `GET /health`, the runs API and, when configured, the
+ * webhook endpoints. Runs are executed by `queue` in the background.
+ */
+export function createServer(options: ServerOptions): Express {
+  const app = express();
+
+  app.get('/health', (_req, res) => {
+    const runs = options.queue.list();
+    res.json({
+      status: 'ok',
+      queued: runs.filter(run => run.status === 'queued').length,
+      running: runs.filter(run => run.status === 'running').length
+    });
+  });
+
+  app.use(createRunsRouter({ ...options, token: options.apiToken }));
+
+  if (options.webhooks) {
+    app.use(createWebhookRouter({ ...options, config: options.webhooks }));
+  }
+  return app;
+}
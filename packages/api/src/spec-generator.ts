@@ -0,0 +1,154 @@
+import { DEFAULT_SCROLL_AMOUNT, guessMimeType } from '@bugbot/runner';
+import { AgentActionType } from '@bugbot/agent';
+import { StepLog, StepLogEntry } from './step-log';
+
+/** Actions that can't be replayed without a locator for their target */
+const TARGETED_ACTIONS = new Set<AgentActionType>(['click', 'input', 'select', 'hover', 'check', 'drag', 'upload']);
+
+/**
+ * Generates a standalone `@playwright/test` spec that replays a reproduced run
+ * and asserts the failure signal that was observed during the run. Targets use
+ * the exact locators the runner resolved during the run.
+ */
+export class SpecGenerator {
+  static generate(stepLog: StepLog): string {
+    const { outcome } = stepLog;
+    const executedSteps = stepLog.steps.filter(step => step.executed);
+    const expectsNoChange = outcome.lastActionChangedPage === false;
+
+    const lines: string[] = [];
+    executedSteps.forEach((step, idx) => {
+      const isLast = idx === executedSteps.length - 1;
+      if (isLast && expectsNoChange) {
+        lines.push(`  const bodyBefore = await page.locator('body').innerText();`);
+      }
+      lines.push(`  // Step ${step.stepNumber}: ${this.comment(step.action.target || step.action.type)}`);
+      lines.push(...this.actionSource(step));
+    });
+
+    const assertions: string[] = [];
+    if (expectsNoChange) {
+      assertions.push(`  // The last action should have changed the page, but it did not`);
+      assertions.push(`  expect(await page.locator('body').innerText()).toBe(bodyBefore);`);
+    }
+    for (const error of outcome.consoleErrors.slice(0, 5)) {
+      assertions.push(`  expect(consoleErrors).toContainEqual(expect.stringContaining(${JSON.stringify(error.split('\n')[0].substring(0, 120))}));`);
+    }
+    for (const entry of outcome.failedRequests) {
+      assertions.push(`  expect(responses).toContainEqual({ method: ${JSON.stringify(entry.method)}, url: ${JSON.stringify(entry.url)}, status: ${entry.status} });`);
+    }
+    if (assertions.length === 0) {
+      assertions.push(`  // No console error, failed request or missing DOM change was observed during the run.`);
+      assertions.push(`  // Add an assertion for the behaviour described in the reason above.`);
+    }
+
+    return `import { test, expect } from '@playwright/test';
+
+// Generated by BugBot. This spec passes while the bug is present: once the bug is
+// fixed, invert the assertions below to turn it into a regression test.
+//
+// Run: ${stepLog.runId}
+// Bug: ${this.comment(stepLog.bugDescription)}
+// Reason: ${this.comment(outcome.reason || 'Agent detected the bug')}
+
+test(${JSON.stringify(`reproduces: ${stepLog.bugDescription}`)}, async ({ page }) => {
+  const consoleErrors: string[] = [];
+  const responses: Array<{ method: string; url: string; status: number }> = [];
+  page.on('console', (msg) => {
+    if (msg.type() === 'error') {
+      consoleErrors.push(msg.text());
+    }
+  });
+  page.on('response', (response) => {
+    const url = new URL(response.url());
+    responses.push({ method: response.request().method(), url: url.origin + url.pathname, status: response.status() });
+  });
+
+  await page.goto(${JSON.stringify(stepLog.targetUrl)}, { waitUntil: 'networkidle' });
+
+${lines.join('\n')}
+
+${assertions.join('\n')}
+});
+`;
+  }
+
+  private static actionSource(step: StepLogEntry): string[] {
+    const { action } = step;
+    const locator = step.resolvedSelector
+      || (action.selector ? `page.locator(${JSON.stringify(action.selector)}).first()` : null);
+
+    // Leave the step out rather than emit code that can't run; the spec may need a locator added here
+    if (TARGETED_ACTIONS.has(action.type) && !locator) {
+      return [`  // Skipped: the run recorded no locator for this ${action.type}'s target`];
+    }
+    if (action.type === 'drag' && !step.toResolvedSelector) {
+      return [`  // Skipped: the run recorded no locator for this drag's drop target`];
+    }
+
+    switch (action.type) {
+      case 'click':
+        return [
+          `  await ${locator}.click();`,
+          `  await page.waitForTimeout(500);`
+        ];
+      case 'input':
+        return [
+          `  await ${locator}.fill(${JSON.stringify(action.text || '')});`,
+          `  await page.waitForTimeout(300);`
+        ];
+      case 'select':
+        return [
+          `  await ${locator}.selectOption(${JSON.stringify(action.value || '')});`,
+          `  await page.waitForTimeout(300);`
+        ];
+      case 'hover':
+        return [
+          `  await ${locator}.hover();`,
+          `  await page.waitForTimeout(500);`
+        ];
+      case 'keypress':
+        return [
+          locator
+            ? `  await ${locator}.press(${JSON.stringify(action.key || '')});`
+            : `  await page.keyboard.press(${JSON.stringify(action.key || '')});`,
+          `  await page.waitForTimeout(500);`
+        ];
+      case 'scroll':
+        return locator
+          ? [`  await ${locator}.scrollIntoViewIfNeeded();`, `  await page.waitForTimeout(500);`]
+          : [
+            `  await page.mouse.wheel(0, ${action.direction === 'up' ? -DEFAULT_SCROLL_AMOUNT : DEFAULT_SCROLL_AMOUNT});`,
+            `  await page.waitForTimeout(1000);`
+          ];
+      case 'check':
+        return [
+          `  await ${locator}.setChecked(${action.checked !== false});`,
+          `  await page.waitForTimeout(300);`
+        ];
+      case 'drag':
+        return [
+          `  await ${locator}.dragTo(${step.toResolvedSelector});`,
+          `  await page.waitForTimeout(500);`
+        ];
+      case 'upload': {
+        const fileName = action.fileName || 'upload.txt';
+        const file = `{ name: ${JSON.stringify(fileName)}, mimeType: ${JSON.stringify(guessMimeType(fileName))}, buffer: Buffer.from(${JSON.stringify(action.fileContent || '')}) }`;
+        return [
+          `  await ${locator}.setInputFiles(${file});`,
+          `  await page.waitForTimeout(500);`
+        ];
+      }
+      case 'wait':
+        return [`  await page.waitForTimeout(2000);`];
+      case 'navigate':
+        return action.url
+          ? [`  await page.goto(${JSON.stringify(action.url)}, { waitUntil: 'networkidle' });`]
+          : [];
+    }
+  }
+
+  private static comment(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
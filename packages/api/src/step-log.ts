@@ -0,0 +1,163 @@
+import { AgentAction, AgentObservation } from '@bugbot/agent';
+import { BackendLogEntry, BrowserState, DOMDiff, LocatorCandidate, NetworkEntry, diffDOM, isEmptyDiff } from '@bugbot/runner';
+
+export const STEP_LOG_VERSION = 1;
+
+export interface StepObservationSummary {
+  url: string;
+  title: string;
+  elementCount: number;
+  consoleErrorCount: number;
+  networkEntryCount: number;
+}
+
+export interface StepLogEntry {
+  stepNumber: number;
+  startedAt: string;
+  durationMs: number;
+  observation: StepObservationSummary;
+  thought?: string;
+  action: AgentAction;
+  executed: boolean;
+  /** Locator the runner resolved the action's target to, replayed by `bugbot replay` */
+  locator?: LocatorCandidate;
+  /** Source code of that locator, used in generated specs */
+  resolvedSelector?: string;
+  /** Locator of a drag action's drop target */
+  toLocator?: LocatorCandidate;
+  toResolvedSelector?: string;
+  actionDurationMs?: number;
+  error?: string;
+}
+
+export interface RunOutcome {
+  status: 'reproduced' | 'failed' | 'inconclusive' | 'timeout';
+  reason?: string;
+  finalUrl: string;
+  consoleErrors: string[];
+  failedRequests: Array<{ method: string; url: string; status: number }>;
+  /** Whether the last executed action changed the page, or null if it could not be determined */
+  lastActionChangedPage: boolean | null;
+}
+
+export interface StepLog {
+  version: number;
+  runId: string;
+  bugDescription: string;
+  targetUrl: string;
+  startedAt: string;
+  endedAt: string;
+  steps: StepLogEntry[];
+  outcome: RunOutcome;
+}
+
+export function summarizeObservation(observation: AgentObservation): StepObservationSummary {
+  return {
+    url: observation.state.url,
+    title: observation.state.title,
+    elementCount: observation.dom.length,
+    consoleErrorCount: observation.state.consoleErrors.length,
+    networkEntryCount: observation.state.networkEntries.length
+  };
+}
+
+/**
+ * How the page changed between two observations.
+ */
+export function diffObservations(before: Pick<AgentObservation, 'dom' | 'state'>, after: Pick<AgentObservation, 'dom' | 'state'>): DOMDiff {
+  return diffDOM(
+    { url: before.state.url, title: before.state.title, dom: before.dom },
+    { url: after.state.url, title: after.state.title, dom: after.dom }
+  );
+}
+
+export function pageChanged(before: Pick<AgentObservation, 'dom' | 'state'>, after: Pick<AgentObservation, 'dom' | 'state'>): boolean {
+  return !isEmptyDiff(diffObservations(before, after));
+}
+
+export interface StepBackendLogEntry extends BackendLogEntry {
+  /** Step that was in progress when the line was logged; unset for lines logged before the first step */
+  stepNumber?: number;
+}
+
+/**
+ * Attributes each backend log entry to the last step that started before it was logged.
+ */
+export function correlateBackendLogs(entries: BackendLogEntry[], steps: StepLogEntry[]): StepBackendLogEntry[] {
+  const starts = steps.map(step => ({ stepNumber: step.stepNumber, startedAt: Date.parse(step.startedAt) }));
+  return entries.map(entry => {
+    const step = starts.filter(s => s.startedAt <= entry.timestamp).pop();
+    return step ? { ...entry, stepNumber: step.stepNumber } : { ...entry };
+  });
+}
+
+/**
+ * Reduces network entries to the distinct requests that failed with a 4xx/5xx status.
+ * Query strings are dropped so that cache-busting parameters don't break comparisons.
+ */
+export function failedRequests(entries: NetworkEntry[]): RunOutcome['failedRequests'] {
+  const seen = new Set<string>();
+  const result: RunOutcome['failedRequests'] = [];
+  for (const entry of entries) {
+    if (!entry.status || entry.status < 400) continue;
+    const url = stripQuery(entry.url);
+    const key = `${entry.method} ${url} ${entry.status}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push({ method: entry.method, url, status: entry.status });
+  }
+  return result;
+}
+
+export function buildOutcome(
+  status: RunOutcome['status'],
+  reason: string | undefined,
+  finalState: Pick<BrowserState, 'url' | 'consoleErrors'>,
+  networkEntries: NetworkEntry[],
+  lastActionChangedPage: boolean | null
+): RunOutcome {
+  return {
+    status,
+    reason,
+    finalUrl: finalState.url,
+    consoleErrors: finalState.consoleErrors,
+    failedRequests: failedRequests(networkEntries),
+    lastActionChangedPage
+  };
+}
+
+/**
+ * Lists the failure signals of the expected outcome that are missing from the actual one.
+ * An empty list means the same outcome happened again.
+ */
+export function missingSignals(expected: RunOutcome, actual: RunOutcome): string[] {
+  const missing: string[] = [];
+  const firstLine = (text: string) => text.split('\n')[0];
+
+  for (const error of expected.consoleErrors) {
+    if (!actual.consoleErrors.some(e => firstLine(e) === firstLine(error))) {
+      missing.push(`console error: ${firstLine(error)}`);
+    }
+  }
+  for (const request of expected.failedRequests) {
+    const found = actual.failedRequests.some(r =>
+      r.method === request.method && r.url === request.url && r.status === request.status
+    );
+    if (!found) {
+      missing.push(`failed request: ${request.method} ${request.url} (${request.status})`);
+    }
+  }
+  if (expected.lastActionChangedPage === false && actual.lastActionChangedPage !== false) {
+    missing.push('last action had no effect on the page');
+  }
+  return missing;
+}
+
+export function stripQuery(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin + parsed.pathname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,74 @@
+import { NetworkEntry } from '@bugbot/runner';
+import type { ReportData } from './report-generator';
+import { StepBackendLogEntry } from './step-log';
+
+/**
+ * What happened while one step was in progress: from its start to the start of
+ * the next step (or the end of the run). The setup entry has no step and covers
+ * everything before the first step, such as the initial page load.
+ */
+export interface TimelineEntry {
+  step?: ReportData['steps'][number];
+  startTime: number;
+  endTime: number;
+  consoleErrors: string[];
+  networkEntries: NetworkEntry[];
+  backendLogs: StepBackendLogEntry[];
+  /** Whether the action failed or any console error, failed request or backend error happened */
+  hasError: boolean;
+}
+
+export function isFailedRequest(entry: NetworkEntry): boolean {
+  return !!entry.failure || (entry.status !== undefined && entry.status >= 400);
+}
+
+/**
+ * Splits a run's console errors, network requests and backend logs into the
+ * steps they happened in. Requests and backend logs are placed by timestamp.
+ * Console errors have none, so they're placed by comparing the errors each
+ * step's observation had seen so far.
+ */
+export function buildTimeline(
+  data: Pick<ReportData, 'steps' | 'startTime' | 'endTime' | 'networkEntries' | 'consoleErrors' | 'backendLogs'>
+): TimelineEntry[] {
+  const runStart = data.startTime.getTime();
+  const runEnd = data.endTime.getTime();
+  const starts = data.steps.map(step => step.startedAt.getTime());
+
+  const entry = (idx: number): TimelineEntry => {
+    const step = idx >= 0 ? data.steps[idx] : undefined;
+    const startTime = idx >= 0 ? starts[idx] : runStart;
+    const endTime = idx + 1 < starts.length ? starts[idx + 1] : runEnd;
+    const inWindow = (timestamp: number) => idx + 1 < starts.length
+      ? timestamp < endTime && (idx < 0 || timestamp >= startTime)
+      : idx < 0 || timestamp >= startTime;
+
+    // Observations carry all console errors seen when the step started
+    const seenBefore = step ? step.observation.state.consoleErrors.length : 0;
+    const seenAfter = idx + 1 < data.steps.length
+      ? data.steps[idx + 1].observation.state.consoleErrors.length
+      : data.consoleErrors.length;
+    const consoleErrors = data.consoleErrors.slice(seenBefore, seenAfter);
+
+    const networkEntries = data.networkEntries.filter(e => inWindow(e.timestamp));
+    const backendLogs = data.backendLogs.filter(e => inWindow(e.timestamp));
+
+    return {
+      step,
+      startTime,
+      endTime,
+      consoleErrors,
+      networkEntries,
+      backendLogs,
+      hasError: !!step?.error
+        || consoleErrors.length > 0
+        || networkEntries.some(isFailedRequest)
+        || backendLogs.some(e => e.level === 'error')
+    };
+  };
+
+  const timeline = data.steps.map((_, idx) => entry(idx));
+  const setup = entry(-1);
+  const hasSetupEvents = setup.consoleErrors.length + setup.networkEntries.length + setup.backendLogs.length > 0;
+  return hasSetupEvents ? [setup, ...timeline] : timeline;
+}
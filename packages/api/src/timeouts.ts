@@ -0,0 +1,123 @@
+/**
+ * Part of a run that was in progress when time ran out.
+ */
+export type TimeoutPhase = 'navigation' | 'observation' | 'llm' | 'action' | 'verification';
+
+/**
+ * Which limit was hit: the whole run's `--timeout`, the per-step budget, or a
+ * single runner request.
+ */
+export type TimeoutLimit = 'run' | 'step' | 'request';
+
+export interface TimeoutInfo {
+  /** Unset when the timeout happened outside a tracked phase */
+  phase?: TimeoutPhase;
+  limit: TimeoutLimit;
+  timeoutMs: number;
+}
+
+export class TimeoutError extends Error {
+  readonly phase?: TimeoutPhase;
+  readonly limit: TimeoutLimit;
+  readonly timeoutMs: number;
+
+  constructor(limit: TimeoutLimit, timeoutMs: number, phase?: TimeoutPhase) {
+    super(`${phase ? `${phase} ` : ''}timed out after ${timeoutMs}ms (${limit} timeout)`);
+    this.name = 'TimeoutError';
+    this.limit = limit;
+    this.timeoutMs = timeoutMs;
+    this.phase = phase;
+  }
+
+  /**
+   * Attributes the timeout to a phase, for errors raised below the orchestrator
+   * (e.g. a runner request) that don't know which phase they belong to.
+   */
+  inPhase(phase: TimeoutPhase): TimeoutError {
+    return this.phase ? this : new TimeoutError(this.limit, this.timeoutMs, phase);
+  }
+
+  toInfo(): TimeoutInfo {
+    return { phase: this.phase, limit: this.limit, timeoutMs: this.timeoutMs };
+  }
+}
+
+/**
+ * Raised when a run is cancelled while one of its phases is in progress.
+ */
+export class RunCancelledError extends Error {
+  readonly phase?: TimeoutPhase;
+
+  constructor(phase?: TimeoutPhase) {
+    super(`Run cancelled${phase ? ` during ${phase}` : ''}`);
+    this.name = 'RunCancelledError';
+    this.phase = phase;
+  }
+}
+
+/**
+ * Tracks the time left before a deadline.
+ */
+export class Deadline {
+  readonly limit: TimeoutLimit;
+  readonly timeoutMs: number;
+  private readonly expiresAt: number;
+
+  constructor(limit: TimeoutLimit, timeoutMs: number) {
+    this.limit = limit;
+    this.timeoutMs = timeoutMs;
+    this.expiresAt = Date.now() + timeoutMs;
+  }
+
+  remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+}
+
+/**
+ * Runs `task` with whatever time is left before the earliest of `deadlines`.
+ * When that runs out, the signal passed to `task` is aborted and the returned
+ * promise rejects with a `TimeoutError` for the deadline that expired. Aborting
+ * `cancel` does the same, rejecting with a `RunCancelledError`.
+ */
+export async function withDeadline<T>(
+  phase: TimeoutPhase,
+  deadlines: Deadline[],
+  task: (signal: AbortSignal) => Promise<T>,
+  cancel?: AbortSignal
+): Promise<T> {
+  if (cancel?.aborted) {
+    throw new RunCancelledError(phase);
+  }
+  const deadline = deadlines.reduce((earliest, d) => d.remaining() < earliest.remaining() ? d : earliest);
+  const remaining = deadline.remaining();
+  if (remaining <= 0) {
+    throw new TimeoutError(deadline.limit, deadline.timeoutMs, phase);
+  }
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(deadline.limit, deadline.timeoutMs, phase));
+    }, remaining);
+  });
+  let onCancel: (() => void) | undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    onCancel = () => {
+      controller.abort();
+      reject(new RunCancelledError(phase));
+    };
+    cancel?.addEventListener('abort', onCancel, { once: true });
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), timeout, cancelled]);
+  } catch (error) {
+    throw error instanceof TimeoutError ? error.inPhase(phase) : error;
+  } finally {
+    clearTimeout(timer);
+    cancel?.removeEventListener('abort', onCancel!);
+  }
+}
@@ -0,0 +1,67 @@
+import { AgentObservation, Verdict, VerificationEvidence, describeAction, describePageChanges } from '@bugbot/agent';
+import type { ReportData } from './report-generator';
+import { diffObservations } from './step-log';
+import { buildTimeline, isFailedRequest } from './timeline';
+
+const MAX_LISTED_CHANGES = 5;
+
+/**
+ * Outcome of the verification of a claimed reproduction.
+ */
+export interface VerificationResult {
+  /** What the run claimed, from the agent or the no-effect loop detection */
+  claim: string;
+  verdict: Verdict;
+  /** Everything the verifier was shown, including evidence it didn't cite */
+  evidence: VerificationEvidence[];
+}
+
+export interface EvidenceSources extends Pick<ReportData, 'steps' | 'startTime' | 'endTime' | 'networkEntries' | 'consoleErrors' | 'backendLogs'> {
+  /** Observation taken after the last action */
+  finalObservation: AgentObservation;
+}
+
+/**
+ * Gathers what the run observed, step by step, for the verifier: failed actions,
+ * how each action changed the page, console errors, failed requests and backend
+ * errors. Evidence is numbered `E1`, `E2`, ... in the order it happened.
+ */
+export function collectEvidence(sources: EvidenceSources): VerificationEvidence[] {
+  const evidence: Omit<VerificationEvidence, 'id'>[] = [];
+  const observations = [...sources.steps.map(step => step.observation), sources.finalObservation];
+
+  for (const entry of buildTimeline(sources)) {
+    const step = entry.step;
+    const stepNumber = step?.stepNumber;
+
+    if (step?.error) {
+      evidence.push({ kind: 'action', stepNumber, description: `${describeAction(step.action)} failed: ${step.error}` });
+    } else if (step?.executed) {
+      const changes = step.changes || diffObservations(step.observation, observations[sources.steps.indexOf(step) + 1]);
+      const lines = describePageChanges(changes, MAX_LISTED_CHANGES);
+      evidence.push({
+        kind: 'dom',
+        stepNumber,
+        description: `After ${describeAction(step.action)}: ${lines.length > 0 ? lines.join('; ') : 'the page did not change'}`
+      });
+    }
+
+    for (const error of entry.consoleErrors) {
+      evidence.push({ kind: 'console', stepNumber, description: `Console error: ${error}` });
+    }
+    for (const request of entry.networkEntries.filter(isFailedRequest)) {
+      const outcome = request.failure ? `failed (${request.failure})` : `returned ${request.status}`;
+      const body = request.responseBody?.text.trim().replace(/\s+/g, ' ');
+      evidence.push({
+        kind: 'network',
+        stepNumber,
+        description: `${request.method} ${request.url} ${outcome}${body ? `: ${body.substring(0, 200)}` : ''}`
+      });
+    }
+    for (const log of entry.backendLogs.filter(l => l.level === 'error' || l.level === 'warn')) {
+      evidence.push({ kind: 'backend', stepNumber, description: `Backend ${log.level}: ${log.message}` });
+    }
+  }
+
+  return evidence.map((item, idx) => ({ id: `E${idx + 1}`, ...item }));
+}
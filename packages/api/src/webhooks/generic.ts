@@ -0,0 +1,53 @@
+import * as crypto from 'crypto';
+import { WebhookAdapter, WebhookError } from './types';
+import { headerValue, hmacSha256, signatureMatches } from './signature';
+
+/**
+ * Plain JSON for any other system: `{ "description": "...", "title", "id",
+ * "project", "labels", "url", "targetUrl" }`, of which only `description` is
+ * required. Signed like GitHub's, with `X-BugBot-Signature: sha256=<hex HMAC>`.
+ */
+export const genericAdapter: WebhookAdapter = {
+  secretEnv: ['BUGBOT_WEBHOOK_SECRET'],
+
+  verify(request, secret) {
+    return signatureMatches(headerValue(request.headers, 'x-bugbot-signature'), hmacSha256(secret, request.rawBody), 'sha256=');
+  },
+
+  parse(payload, request) {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new WebhookError('Payload must be a JSON object');
+    }
+    const description = payload.description ?? payload.bugDescription;
+    if (typeof description !== 'string' || !description.trim()) {
+      throw new WebhookError('Payload is missing "description"');
+    }
+    if (payload.labels !== undefined && !Array.isArray(payload.labels)) {
+      throw new WebhookError('"labels" must be an array of strings');
+    }
+    if (payload.targetUrl !== undefined && !isHttpUrl(payload.targetUrl)) {
+      throw new WebhookError('"targetUrl" must be an http(s) URL');
+    }
+    return {
+      issue: {
+        source: 'generic',
+        // Deliveries without an id are told apart by their content
+        id: payload.id !== undefined ? String(payload.id) : crypto.createHash('sha256').update(request.rawBody).digest('hex').substring(0, 12),
+        title: typeof payload.title === 'string' ? payload.title : '',
+        description,
+        url: typeof payload.url === 'string' ? payload.url : undefined,
+        project: typeof payload.project === 'string' ? payload.project : undefined,
+        labels: (payload.labels || []).map(String),
+        targetUrl: payload.targetUrl
+      }
+    };
+  }
+};
+
+function isHttpUrl(value: unknown): boolean {
+  try {
+    return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,44 @@
+import { WebhookAdapter, WebhookError } from './types';
+import { headerValue, hmacSha256, signatureMatches } from './signature';
+
+const TRIGGER_ACTIONS = new Set(['opened', 'reopened', 'labeled']);
+
+/**
+ * GitHub `issues` webhooks. Triggers when an issue is opened, reopened or
+ * labeled. Issues belong to their repository's full name (e.g. `octo/app`) for
+ * routing. `ping` deliveries, sent when the webhook is created, are acknowledged.
+ */
+export const githubAdapter: WebhookAdapter = {
+  secretEnv: ['GITHUB_WEBHOOK_SECRET'],
+
+  verify(request, secret) {
+    return signatureMatches(headerValue(request.headers, 'x-hub-signature-256'), hmacSha256(secret, request.rawBody), 'sha256=');
+  },
+
+  parse(payload, request) {
+    const event = headerValue(request.headers, 'x-github-event');
+    if (event !== 'issues') {
+      return { ignored: `Not an issues event (${event || 'no X-GitHub-Event header'})` };
+    }
+    if (!TRIGGER_ACTIONS.has(payload?.action)) {
+      return { ignored: `Issue ${payload?.action} events don't start runs` };
+    }
+
+    const issue = payload.issue;
+    const repository = payload.repository?.full_name;
+    if (!issue?.number || typeof issue.title !== 'string' || !repository) {
+      throw new WebhookError('GitHub payload is missing the issue number, title or repository');
+    }
+    return {
+      issue: {
+        source: 'github',
+        id: `${repository}#${issue.number}`,
+        title: issue.title,
+        description: issue.body || '',
+        url: issue.html_url,
+        project: repository,
+        labels: (issue.labels || []).map((label: { name: string } | string) => typeof label === 'string' ? label : label.name).filter(Boolean)
+      }
+    };
+  }
+};
@@ -0,0 +1,8 @@
+export * from './types';
+export * from './routing';
+export * from './registry';
+export * from './router';
+export { hmacSha256, signatureMatches } from './signature';
+export { linearAdapter } from './linear';
+export { githubAdapter } from './github';
+export { genericAdapter } from './generic';
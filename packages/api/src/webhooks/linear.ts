@@ -0,0 +1,53 @@
+import { WebhookAdapter, WebhookError } from './types';
+import { headerValue, hmacSha256, signatureMatches } from './signature';
+
+/** Deliveries older than this are rejected, so a captured request can't be replayed later */
+const MAX_DELIVERY_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Linear issue webhooks. Triggers on new issues, and on updates that change an
+ * issue's labels so that adding a label can queue a run. Issues belong to their
+ * team's key (e.g. `ENG`) for routing.
+ */
+export const linearAdapter: WebhookAdapter = {
+  secretEnv: ['LINEAR_WEBHOOK_SECRET'],
+
+  verify(request, secret) {
+    if (!signatureMatches(headerValue(request.headers, 'linear-signature'), hmacSha256(secret, request.rawBody))) {
+      return false;
+    }
+    try {
+      const { webhookTimestamp } = JSON.parse(request.rawBody.toString('utf-8'));
+      return typeof webhookTimestamp !== 'number' || Math.abs(Date.now() - webhookTimestamp) <= MAX_DELIVERY_AGE_MS;
+    } catch {
+      return false;
+    }
+  },
+
+  parse(payload) {
+    if (payload?.type !== 'Issue') {
+      return { ignored: `Not an issue event (${payload?.type || 'no type'})` };
+    }
+    const labelsChanged = payload.action === 'update' && payload.updatedFrom && 'labelIds' in payload.updatedFrom;
+    if (payload.action !== 'create' && !labelsChanged) {
+      return { ignored: `Issue ${payload.action} events other than label changes don't start runs` };
+    }
+
+    const data = payload.data;
+    if (!data?.id || typeof data.title !== 'string') {
+      throw new WebhookError('Linear payload is missing the issue id or title');
+    }
+    return {
+      issue: {
+        source: 'linear',
+        id: data.identifier || data.id,
+        internalId: data.id,
+        title: data.title,
+        description: data.description || '',
+        url: data.url || payload.url,
+        project: data.team?.key,
+        labels: (data.labels || []).map((label: { name: string }) => label.name).filter(Boolean)
+      }
+    };
+  }
+};
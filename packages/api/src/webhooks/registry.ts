@@ -0,0 +1,30 @@
+import { WebhookAdapter } from './types';
+import { WebhookSourceConfig } from './routing';
+import { linearAdapter } from './linear';
+import { githubAdapter } from './github';
+import { genericAdapter } from './generic';
+
+const registry = new Map<string, WebhookAdapter>();
+
+export function registerWebhookAdapter(name: string, adapter: WebhookAdapter): void {
+  registry.set(name, adapter);
+}
+
+export function getWebhookAdapter(name: string): WebhookAdapter | undefined {
+  return registry.get(name);
+}
+
+export function listWebhookAdapters(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Returns the source's configured secret or, failing that, the first one set in the adapter's environment variables.
+ */
+export function resolveWebhookSecret(name: string, source: WebhookSourceConfig): string | undefined {
+  return source.secret || registry.get(name)?.secretEnv.map(env => process.env[env]).find(Boolean);
+}
+
+registerWebhookAdapter('linear', linearAdapter);
+registerWebhookAdapter('github', githubAdapter);
+registerWebhookAdapter('generic', genericAdapter);
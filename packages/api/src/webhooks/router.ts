@@ -0,0 +1,105 @@
+import express, { Request, Response, Router } from 'express';
+import chalk from 'chalk';
+import { OrchestratorConfig } from '../orchestrator';
+import { RunQueue } from '../run-queue';
+import { resolveRunConfig } from '../run-settings';
+import { WebhookError, WebhookIssue } from './types';
+import { WebhookConfig, WebhookRoute, issueBugDescription, matchRoute } from './routing';
+import { getWebhookAdapter, listWebhookAdapters, resolveWebhookSecret } from './registry';
+
+const MAX_BODY_SIZE = '1mb';
+
+export interface WebhookRouterOptions {
+  config: WebhookConfig;
+  queue: RunQueue;
+  /** Settings for runs, before the route's overrides */
+  defaults: Omit<OrchestratorConfig, 'bugDescription'>;
+  /** Resolves the API key for a provider, so routes can use a different provider than the defaults */
+  apiKeyFor: (provider: string) => string | undefined;
+}
+
+/**
+ * `POST /webhooks/:source` for every source in the config. A delivery is
+ * verified against the source's secret, parsed by its adapter and matched
+ * against the routes; a match is queued and answered with 202 and the run id
+ * right away. Deliveries that are ignored (other events, no matching route, an
+ * issue that already has a run in progress) get a 200 saying why.
+ *
+ * Throws if an enabled source has no adapter, or no secret and no `allowUnsigned`.
+ */
+export function createWebhookRouter(options: WebhookRouterOptions): Router {
+  const { config, queue } = options;
+  for (const [name, source] of Object.entries(config.sources)) {
+    const adapter = getWebhookAdapter(name);
+    if (!adapter) {
+      throw new Error(`Unknown webhook source "${name}". Available sources: ${listWebhookAdapters().join(', ')}`);
+    }
+    if (!source.allowUnsigned && !resolveWebhookSecret(name, source)) {
+      throw new Error(`No secret for ${name} webhooks. Set ${adapter.secretEnv.join(' or ')}, "secret" in the config, or "allowUnsigned": true for local testing.`);
+    }
+  }
+
+  const router = Router();
+  router.post('/webhooks/:source', express.raw({ type: () => true, limit: MAX_BODY_SIZE }), (req: Request, res: Response) => {
+    const name = req.params.source;
+    const source = config.sources[name];
+    const adapter = getWebhookAdapter(name);
+    if (!source || !adapter) {
+      res.status(404).json({ error: `Webhook source "${name}" is not enabled` });
+      return;
+    }
+
+    try {
+      const request = { headers: req.headers, rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0) };
+      const secret = resolveWebhookSecret(name, source);
+      if (secret && !adapter.verify(request, secret)) {
+        throw new WebhookError('Invalid or missing signature', 401);
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(request.rawBody.toString('utf-8'));
+      } catch {
+        throw new WebhookError('Body is not valid JSON');
+      }
+
+      const parsed = adapter.parse(payload, request);
+      if ('ignored' in parsed) {
+        res.json({ ignored: parsed.ignored });
+        return;
+      }
+      const { issue } = parsed;
+      const route = matchRoute(issue, config.routes);
+      if (!route) {
+        res.json({ ignored: `No route matches ${name} issue ${issue.id} (project ${issue.project || 'none'}, labels ${issue.labels.join(', ') || 'none'})` });
+        return;
+      }
+      const existing = queue.findActive(issue.source, issue.id);
+      if (existing) {
+        res.json({ ignored: `Issue ${issue.id} already has a run in progress`, runId: existing.id });
+        return;
+      }
+
+      const run = queue.enqueue(runConfig(issue, route, options), issue);
+      console.log(chalk.blue(`📥 Queued ${run.id} for ${name} issue ${issue.id}: ${issue.title || issue.description.substring(0, 80)}`));
+      res.status(202).json({ runId: run.id, status: run.status });
+    } catch (error: any) {
+      const status = error instanceof WebhookError ? error.statusCode : 500;
+      if (status === 500) {
+        console.error(chalk.red(`Webhook ${name} failed: ${error.message}`));
+      }
+      res.status(status).json({ error: error.message });
+    }
+  });
+  return router;
+}
+
+function runConfig(issue: WebhookIssue, route: WebhookRoute, options: WebhookRouterOptions): OrchestratorConfig {
+  const { source: _source, project: _project, labels: _labels, ...settings } = route;
+  return resolveRunConfig(
+    options.defaults,
+    { ...settings, targetUrl: issue.targetUrl || settings.targetUrl },
+    issueBugDescription(issue),
+    options.apiKeyFor
+  );
+}
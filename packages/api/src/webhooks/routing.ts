@@ -0,0 +1,98 @@
+import * as fs from 'fs-extra';
+import { RunSettings } from '../run-settings';
+import { PublishConfig } from '../publishers/types';
+import { WebhookIssue } from './types';
+
+export interface WebhookSourceConfig {
+  /** Signing secret (default: the adapter's environment variable, e.g. `LINEAR_WEBHOOK_SECRET`) */
+  secret?: string;
+  /** Accept deliveries without checking their signature; for local testing only */
+  allowUnsigned?: boolean;
+  /** Post each run's result back to its issue */
+  publish?: PublishConfig;
+}
+
+/** Run settings a route can override; everything else comes from the server's defaults */
+export type WebhookRunSettings = RunSettings;
+
+/**
+ * Where issues go. A route matches when every condition it sets holds: the
+ * source, the project (team key, project or repository, case-insensitive) and
+ * at least one of the labels (case-insensitive).
+ */
+export interface WebhookRoute extends WebhookRunSettings {
+  source?: string;
+  project?: string;
+  labels?: string[];
+}
+
+export interface WebhookConfig {
+  /** Sources that accept deliveries, by adapter name */
+  sources: Record<string, WebhookSourceConfig>;
+  /** Checked in order; the first match decides. Issues no route matches are ignored */
+  routes: WebhookRoute[];
+}
+
+/**
+ * Reads a webhook config file, e.g.
+ * `{ "sources": { "github": {} }, "routes": [{ "source": "github", "labels": ["bug"], "targetUrl": "http://localhost:4200" }] }`.
+ */
+export async function loadWebhookConfig(filePath: string): Promise<WebhookConfig> {
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`Webhook config not found: ${filePath}`);
+  }
+  let raw: any;
+  try {
+    raw = await fs.readJSON(filePath);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error.message}`);
+  }
+  if (!raw || typeof raw.sources !== 'object' || Array.isArray(raw.sources) || !Array.isArray(raw.routes)) {
+    throw new Error(`${filePath} must have a "sources" object and a "routes" array`);
+  }
+
+  raw.routes.forEach((route: any, idx: number) => {
+    const position = `Route ${idx + 1} in ${filePath}`;
+    if (!route || typeof route !== 'object') {
+      throw new Error(`${position} must be an object`);
+    }
+    if (route.labels !== undefined && (!Array.isArray(route.labels) || route.labels.length === 0)) {
+      throw new Error(`${position} has "labels" that isn't a non-empty array`);
+    }
+    if (route.source !== undefined && !(route.source in raw.sources)) {
+      throw new Error(`${position} uses source "${route.source}", which isn't in "sources"`);
+    }
+    if (route.targetUrl !== undefined) {
+      try {
+        new URL(route.targetUrl);
+      } catch {
+        throw new Error(`${position} has an invalid targetUrl: ${route.targetUrl}`);
+      }
+    }
+    if (route.maxSteps !== undefined && !(Number(route.maxSteps) > 0)) {
+      throw new Error(`${position} has an invalid maxSteps value: ${route.maxSteps}`);
+    }
+  });
+  return raw as WebhookConfig;
+}
+
+export function matchRoute(issue: WebhookIssue, routes: WebhookRoute[]): WebhookRoute | undefined {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  return routes.find(route =>
+    (!route.source || route.source === issue.source)
+    && (!route.project || (!!issue.project && same(route.project, issue.project)))
+    && (!route.labels || route.labels.some(label => issue.labels.some(issueLabel => same(label, issueLabel))))
+  );
+}
+
+/**
+ * The text the agent works from: the issue's title and description.
+ */
+export function issueBugDescription(issue: WebhookIssue): string {
+  const description = issue.description.trim();
+  const title = issue.title.trim();
+  if (!title || description.startsWith(title)) {
+    return description || title;
+  }
+  return description ? `${title}\n\n${description}` : title;
+}
@@ -0,0 +1,25 @@
+import * as crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+export function hmacSha256(secret: string, body: Buffer): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Compares a hex signature from a request against the expected one in constant
+ * time. `prefix` is stripped first, e.g. `sha256=` for GitHub.
+ */
+export function signatureMatches(received: string | undefined, expected: string, prefix: string = ''): boolean {
+  if (!received || !received.startsWith(prefix)) {
+    return false;
+  }
+  const given = Buffer.from(received.substring(prefix.length).trim().toLowerCase(), 'utf-8');
+  const wanted = Buffer.from(expected, 'utf-8');
+  return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+}
+
+/** A header's value, or its first value if it was sent more than once */
+export function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,56 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * An issue from an issue tracker or other webhook source, in a source-independent shape.
+ */
+export interface WebhookIssue {
+  /** Adapter that parsed it, e.g. `linear` */
+  source: string;
+  /** Identifier in the source, e.g. `ENG-123` or `octo/app#42` */
+  id: string;
+  /** The source's own id where `id` is a display key, e.g. Linear's issue UUID */
+  internalId?: string;
+  title: string;
+  description: string;
+  /** Link to the issue, if the source has one */
+  url?: string;
+  /** Team, project or repository the issue belongs to, used to pick a route */
+  project?: string;
+  labels: string[];
+  /** Page to reproduce the bug on, for sources that can name one */
+  targetUrl?: string;
+}
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  /** Body exactly as received, which signatures are computed over */
+  rawBody: Buffer;
+}
+
+/**
+ * Result of parsing a delivery: an issue to reproduce, or the reason it's ignored
+ * (e.g. a comment event, or an issue being closed).
+ */
+export type WebhookParseResult =
+  | { issue: WebhookIssue }
+  | { ignored: string };
+
+export class WebhookError extends Error {
+  constructor(message: string, readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Turns one source's webhook deliveries into `WebhookIssue`s. Register new ones
+ * with `registerWebhookAdapter(name, adapter)`.
+ */
+export interface WebhookAdapter {
+  /** Environment variables checked, in order, for the signing secret when the config has none */
+  secretEnv: string[];
+  /** Whether the request carries a valid signature of its body made with `secret` */
+  verify(request: WebhookRequest, secret: string): boolean;
+  /** Parses the JSON body; throws a `WebhookError` for malformed payloads */
+  parse(payload: any, request: WebhookRequest): WebhookParseResult;
+}
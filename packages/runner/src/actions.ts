@@ -0,0 +1,118 @@
+import * as path from 'path';
+
+export type ActionType = 'click' | 'input' | 'select' | 'hover' | 'keypress' | 'scroll' | 'check' | 'drag' | 'upload';
+
+/** Pixels scrolled by a page scroll that doesn't specify an amount */
+export const DEFAULT_SCROLL_AMOUNT = 600;
+
+/**
+ * An action request the runner can't act on, e.g. a missing parameter or an
+ * unknown element id. Reported with a 400 so the agent can correct the action.
+ */
+export class ActionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActionValidationError';
+  }
+}
+
+// Actions that may omit a target and apply to the page instead
+const OPTIONAL_TARGET: ActionType[] = ['keypress', 'scroll'];
+
+/**
+ * Checks an `/action/<type>` request body, throwing an `ActionValidationError`
+ * that lists every problem found.
+ */
+export function validateAction(type: ActionType, body: any): void {
+  const problems = targetProblems(type, body, !OPTIONAL_TARGET.includes(type));
+
+  switch (type) {
+    case 'input':
+      if (typeof body.text !== 'string') {
+        problems.push('input requires "text": the text to type');
+      }
+      break;
+    case 'select':
+      if (!isNonEmptyString(body.value)) {
+        problems.push('select requires "value": the label or value of the option to choose');
+      }
+      break;
+    case 'keypress':
+      if (!isNonEmptyString(body.key)) {
+        problems.push('keypress requires "key", e.g. "Enter", "Escape" or "Control+A"');
+      }
+      break;
+    case 'scroll':
+      if (body.direction !== undefined && body.direction !== 'up' && body.direction !== 'down') {
+        problems.push('scroll "direction" must be "up" or "down"');
+      }
+      if (body.amount !== undefined && !(typeof body.amount === 'number' && body.amount > 0)) {
+        problems.push('scroll "amount" must be a positive number of pixels');
+      }
+      break;
+    case 'check':
+      if (body.checked !== undefined && typeof body.checked !== 'boolean') {
+        problems.push('check "checked" must be true or false');
+      }
+      break;
+    case 'drag':
+      if (!body.to || typeof body.to !== 'object') {
+        problems.push('drag requires "to": the element to drop on');
+      } else {
+        problems.push(...targetProblems('drag', body.to, true).map(p => p.replace('drag requires', 'drag "to" requires')));
+      }
+      break;
+    case 'upload':
+      if (!body.file || !isNonEmptyString(body.file.name)) {
+        problems.push('upload requires "file" with a "name"');
+      } else if (body.file.content !== undefined && typeof body.file.content !== 'string') {
+        problems.push('upload "file.content" must be a string');
+      }
+      break;
+  }
+
+  if (problems.length > 0) {
+    throw new ActionValidationError(`Invalid ${type} action: ${problems.join('; ')}`);
+  }
+}
+
+function targetProblems(type: ActionType, target: any, required: boolean): string[] {
+  const problems: string[] = [];
+  const { elementId, locator, selector } = target;
+
+  if (elementId !== undefined && !Number.isInteger(elementId)) {
+    problems.push(`"elementId" must be a numeric element id, got ${JSON.stringify(elementId)}`);
+  }
+  if (locator !== undefined && (typeof locator !== 'object' || !locator.strategy)) {
+    problems.push('"locator" must be an object with a "strategy"');
+  }
+  if (selector !== undefined && !isNonEmptyString(selector)) {
+    problems.push('"selector" must be a non-empty string');
+  }
+  if (required && elementId === undefined && locator === undefined && selector === undefined) {
+    problems.push(`${type} requires "elementId": the [id] of the element to act on`);
+  }
+  return problems;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml'
+};
+
+export function guessMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
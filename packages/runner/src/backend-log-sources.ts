@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as dgram from 'dgram';
+import { ChildProcess, spawn } from 'child_process';
+import CDP from 'chrome-remote-interface';
+import { BackendLogLevel } from './types';
+
+/** How long to wait before reconnecting to an inspector that isn't reachable */
+const INSPECTOR_RETRY_MS = 5000;
+/** How often a tailed log file is checked for new lines */
+const FILE_POLL_MS = 500;
+/** Windows has no process groups to stop a command's processes with */
+const WINDOWS = process.platform === 'win32';
+
+export interface BackendLogLine {
+  level: BackendLogLevel;
+  message: string;
+}
+
+export type BackendLogStatus = 'starting' | 'connected' | 'disconnected' | 'stopped';
+
+/**
+ * Somewhere the application under test writes its logs. Sources keep running
+ * when their target goes away (an inspector that isn't listening, a file that
+ * doesn't exist yet) and report it through `status` and `lastError` instead of
+ * emitting log lines about themselves.
+ */
+export interface BackendLogSource {
+  readonly name: string;
+  readonly status: BackendLogStatus;
+  readonly lastError?: string;
+  start(emit: (line: BackendLogLine) => void): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Guesses the level of a plain-text log line from the words in it.
+ */
+export function detectLevel(message: string, fallback: BackendLogLevel = 'info'): BackendLogLevel {
+  if (/\b(error|fatal|exception|panic|uncaught)\b/i.test(message)) return 'error';
+  if (/\bwarn(ing)?\b/i.test(message)) return 'warn';
+  if (/\b(debug|trace|verbose)\b/i.test(message)) return 'debug';
+  return fallback;
+}
+
+/**
+ * Reads console calls and uncaught exceptions of a Node.js process started
+ * with `--inspect`, reconnecting when the process restarts.
+ */
+export class InspectorLogSource implements BackendLogSource {
+  readonly name: string;
+  status: BackendLogStatus = 'starting';
+  lastError?: string;
+  private client: any = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(private host: string = 'localhost', private port: number = 9229) {
+    this.name = `inspector:${host}:${port}`;
+  }
+
+  async start(emit: (line: BackendLogLine) => void): Promise<void> {
+    if (this.status === 'stopped') return;
+    try {
+      this.client = await CDP({ host: this.host, port: this.port });
+    } catch (error: any) {
+      this.disconnected(emit, error.message);
+      return;
+    }
+
+    const { Runtime } = this.client;
+    Runtime.consoleAPICalled((payload: { type: string; args: Array<{ value?: any; description?: string }> }) => {
+      const levels: Record<string, BackendLogLevel> = { error: 'error', assert: 'error', warning: 'warn', debug: 'debug' };
+      emit({
+        level: levels[payload.type] || 'info',
+        message: payload.args.map(arg => arg.value !== undefined ? String(arg.value) : arg.description || '').join(' ')
+      });
+    });
+    Runtime.exceptionThrown((payload: { exceptionDetails: { text: string; exception?: { description?: string } } }) => {
+      const details = payload.exceptionDetails;
+      emit({ level: 'error', message: details.exception?.description || details.text });
+    });
+    this.client.on('disconnect', () => this.disconnected(emit, 'Inspector closed the connection'));
+    await Runtime.enable();
+    this.status = 'connected';
+    this.lastError = undefined;
+  }
+
+  async stop(): Promise<void> {
+    this.status = 'stopped';
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    await this.client?.close().catch(() => {});
+    this.client = null;
+  }
+
+  private disconnected(emit: (line: BackendLogLine) => void, error: string): void {
+    if (this.status === 'stopped') return;
+    this.status = 'disconnected';
+    this.lastError = error;
+    this.client = null;
+    this.retryTimer = setTimeout(() => this.start(emit), INSPECTOR_RETRY_MS);
+    this.retryTimer.unref();
+  }
+}
+
+/**
+ * Follows a log file like `tail -F`: starts at its current end, picks up
+ * appended lines, and starts over when the file is truncated or replaced.
+ */
+export class FileLogSource implements BackendLogSource {
+  readonly name: string;
+  status: BackendLogStatus = 'starting';
+  lastError?: string;
+  private offset = 0;
+  private partial = '';
+  private reading = false;
+
+  constructor(private filePath: string) {
+    this.name = `file:${filePath}`;
+  }
+
+  async start(emit: (line: BackendLogLine) => void): Promise<void> {
+    try {
+      this.offset = (await fs.promises.stat(this.filePath)).size;
+      this.status = 'connected';
+    } catch (error: any) {
+      // The file may be created once the application starts
+      this.status = 'disconnected';
+      this.lastError = error.message;
+    }
+    fs.watchFile(this.filePath, { interval: FILE_POLL_MS, persistent: false }, current => {
+      this.read(current, emit);
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.status = 'stopped';
+    fs.unwatchFile(this.filePath);
+  }
+
+  private async read(current: fs.Stats, emit: (line: BackendLogLine) => void): Promise<void> {
+    if (this.reading || this.status === 'stopped') return;
+    if (current.nlink === 0 && current.size === 0) {
+      this.status = 'disconnected';
+      this.lastError = 'File does not exist';
+      return;
+    }
+    if (current.size < this.offset) {
+      // Truncated or rotated
+      this.offset = 0;
+      this.partial = '';
+    }
+    if (current.size === this.offset) return;
+
+    this.reading = true;
+    try {
+      const handle = await fs.promises.open(this.filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(current.size - this.offset);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, this.offset);
+        this.offset += bytesRead;
+        const lines = (this.partial + buffer.subarray(0, bytesRead).toString('utf-8')).split('\n');
+        this.partial = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => emit({ level: detectLevel(line), message: line }));
+      } finally {
+        await handle.close();
+      }
+      this.status = 'connected';
+      this.lastError = undefined;
+    } catch (error: any) {
+      this.status = 'disconnected';
+      this.lastError = error.message;
+    } finally {
+      this.reading = false;
+    }
+  }
+}
+
+/**
+ * Starts the application under test with a shell command and captures its
+ * stdout and stderr. The process is stopped with the runner, along with any
+ * processes the command started (e.g. the server behind `npm start`).
+ */
+export class ProcessLogSource implements BackendLogSource {
+  readonly name: string;
+  status: BackendLogStatus = 'starting';
+  lastError?: string;
+  private child: ChildProcess | null = null;
+
+  constructor(private command: string) {
+    this.name = `process:${command}`;
+  }
+
+  async start(emit: (line: BackendLogLine) => void): Promise<void> {
+    // In a process group of its own, so stop() reaches the app and not just the shell running it
+    this.child = spawn(this.command, { shell: true, stdio: ['ignore', 'pipe', 'pipe'], detached: !WINDOWS });
+    this.status = 'connected';
+
+    const follow = (stream: NodeJS.ReadableStream | null, fallback: BackendLogLevel) => {
+      let partial = '';
+      stream?.on('data', (chunk: Buffer) => {
+        const lines = (partial + chunk.toString('utf-8')).split('\n');
+        partial = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => emit({ level: detectLevel(line, fallback), message: line }));
+      });
+    };
+    // stderr is commonly used for diagnostics, not only errors, so it only defaults to warn
+    follow(this.child.stdout, 'info');
+    follow(this.child.stderr, 'warn');
+
+    this.child.on('error', error => {
+      this.status = 'disconnected';
+      this.lastError = error.message;
+    });
+    this.child.on('exit', (code, signal) => {
+      if (this.status === 'stopped') return;
+      this.status = 'disconnected';
+      this.lastError = `Process exited with ${signal ? `signal ${signal}` : `code ${code}`}`;
+      emit({ level: code === 0 ? 'info' : 'error', message: this.lastError });
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.status = 'stopped';
+    if (this.child?.pid !== undefined && !WINDOWS) {
+      // The shell may have exited already while the processes it started still run
+      try {
+        process.kill(-this.child.pid, 'SIGTERM');
+      } catch {
+        // The whole group has exited
+      }
+    } else if (this.child && this.child.exitCode === null) {
+      this.child.kill();
+    }
+    this.child = null;
+  }
+}
+
+/**
+ * Receives syslog messages (RFC 3164 or RFC 5424) over UDP, for applications
+ * whose logger can ship to a syslog host.
+ */
+export class SyslogLogSource implements BackendLogSource {
+  readonly name: string;
+  status: BackendLogStatus = 'starting';
+  lastError?: string;
+  private socket: dgram.Socket | null = null;
+
+  constructor(private host: string = '127.0.0.1', private port: number = 5514) {
+    this.name = `syslog:${host}:${port}`;
+  }
+
+  async start(emit: (line: BackendLogLine) => void): Promise<void> {
+    this.socket = dgram.createSocket('udp4');
+    this.socket.on('message', message => emit(parseSyslog(message.toString('utf-8'))));
+    this.socket.on('error', error => {
+      this.status = 'disconnected';
+      this.lastError = error.message;
+    });
+
+    await new Promise<void>(resolve => {
+      this.socket!.once('listening', () => {
+        this.status = 'connected';
+        resolve();
+      });
+      // A bind error is reported through the error handler above
+      this.socket!.once('error', () => resolve());
+      this.socket!.bind(this.port, this.host);
+    });
+    this.socket.unref();
+  }
+
+  async stop(): Promise<void> {
+    this.status = 'stopped';
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+/**
+ * Maps a syslog message's priority to a level and strips the header fields.
+ * Messages without a priority are treated as plain text. The sender's timestamp
+ * is dropped: entries are stamped on receipt, on the same clock as the steps.
+ */
+export function parseSyslog(raw: string): BackendLogLine {
+  const match = raw.trim().match(/^<(\d{1,3})>(.*)$/s);
+  if (!match) {
+    return { level: detectLevel(raw), message: raw.trim() };
+  }
+  const severity = parseInt(match[1]) % 8;
+  const level: BackendLogLevel = severity <= 3 ? 'error' : severity === 4 ? 'warn' : severity === 7 ? 'debug' : 'info';
+
+  // RFC 5424: VERSION TIMESTAMP HOSTNAME APP-NAME PROCID MSGID STRUCTURED-DATA MSG
+  const rfc5424 = match[2].match(/^\d+ \S+ \S+ \S+ \S+ \S+ (?:-|(?:\[[^\]]*\])+) ?(.*)$/s);
+  if (rfc5424) {
+    return { level, message: rfc5424[1] };
+  }
+  // RFC 3164: "Mmm dd hh:mm:ss HOSTNAME TAG: MSG"
+  const rfc3164 = match[2].match(/^[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2} \S+ (.*)$/s);
+  return { level, message: rfc3164 ? rfc3164[1] : match[2] };
+}
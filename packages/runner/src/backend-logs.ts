@@ -0,0 +1,115 @@
+import {
+  BackendLogSource,
+  BackendLogStatus,
+  FileLogSource,
+  InspectorLogSource,
+  ProcessLogSource,
+  SyslogLogSource
+} from './backend-log-sources';
+import { BackendLogEntry } from './types';
+
+/** Oldest entries are dropped beyond this many */
+const MAX_ENTRIES = 5000;
+
+export interface BackendLogSourceSummary {
+  name: string;
+  status: BackendLogStatus;
+  lastError?: string;
+}
+
+/**
+ * Parses a source spec:
+ * - `inspector`, `inspector:<port>` or `inspector:<host>:<port>` - Node.js inspector (default `localhost:9229`)
+ * - `file:<path>` - tail a log file
+ * - `process:<command>` - run a command and capture its stdout/stderr
+ * - `syslog`, `syslog:<port>` or `syslog:<host>:<port>` - listen for syslog over UDP (default `127.0.0.1:5514`)
+ */
+export function parseBackendLogSource(spec: string): BackendLogSource {
+  const separator = spec.indexOf(':');
+  const type = (separator === -1 ? spec : spec.substring(0, separator)).trim().toLowerCase();
+  const arg = separator === -1 ? '' : spec.substring(separator + 1).trim();
+
+  const hostAndPort = (defaultHost: string, defaultPort: number): [string, number] => {
+    if (!arg) return [defaultHost, defaultPort];
+    const [host, port] = arg.includes(':') ? arg.split(':') : /^\d+$/.test(arg) ? [defaultHost, arg] : [arg, String(defaultPort)];
+    if (!(parseInt(port) > 0)) {
+      throw new Error(`Invalid port in backend log source "${spec}"`);
+    }
+    return [host || defaultHost, parseInt(port)];
+  };
+
+  switch (type) {
+    case 'inspector':
+      return new InspectorLogSource(...hostAndPort('localhost', 9229));
+    case 'syslog':
+    case 'udp':
+      return new SyslogLogSource(...hostAndPort('127.0.0.1', 5514));
+    case 'file':
+      if (!arg) throw new Error('Backend log source "file" needs a path, e.g. file:/var/log/app.log');
+      return new FileLogSource(arg);
+    case 'process':
+      if (!arg) throw new Error('Backend log source "process" needs a command, e.g. process:npm start');
+      return new ProcessLogSource(arg);
+    default:
+      throw new Error(`Unknown backend log source "${type}". Use inspector, file, process or syslog.`);
+  }
+}
+
+/**
+ * Splits a `;`-separated list of source specs. A `;` only separates specs when
+ * the next one starts with a source type, so process commands may contain it.
+ */
+export function parseBackendLogSources(specs: string): BackendLogSource[] {
+  return specs
+    .split(/;(?=\s*(?:inspector|file|process|syslog|udp)\b)/i)
+    .map(spec => spec.trim())
+    .filter(Boolean)
+    .map(parseBackendLogSource);
+}
+
+/**
+ * Collects timestamped log entries from the backend log sources. The backend
+ * is shared by all sessions, so there's one collector per runner and sessions
+ * read the entries logged since they started.
+ */
+export class BackendLogCollector {
+  private sources: BackendLogSource[] = [];
+  private entries: BackendLogEntry[] = [];
+
+  async add(source: BackendLogSource): Promise<void> {
+    this.sources.push(source);
+    await source.start(line => this.push({
+      timestamp: Date.now(),
+      source: source.name,
+      level: line.level,
+      message: line.message
+    }));
+  }
+
+  /**
+   * Entries logged at or after `since` (epoch ms), oldest first, at most the last `limit`.
+   */
+  getEntries(since: number = 0, limit?: number): BackendLogEntry[] {
+    const entries = this.entries.filter(entry => entry.timestamp >= since);
+    return limit !== undefined ? entries.slice(-limit) : entries;
+  }
+
+  listSources(): BackendLogSourceSummary[] {
+    return this.sources.map(source => ({
+      name: source.name,
+      status: source.status,
+      ...(source.lastError ? { lastError: source.lastError } : {})
+    }));
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.sources.map(source => source.stop().catch(() => {})));
+  }
+
+  private push(entry: BackendLogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { DOMElement } from './types';
+
+/** Fields compared between matched elements; positions are ignored so scrolling isn't a change */
+const COMPARED_FIELDS = ['text', 'name', 'role', 'value', 'states', 'clickable'] as const;
+
+export type DOMElementField = typeof COMPARED_FIELDS[number];
+
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  dom: DOMElement[];
+}
+
+export interface DOMElementChange {
+  before: DOMElement;
+  after: DOMElement;
+  fields: DOMElementField[];
+}
+
+export interface DOMDiff {
+  url?: { from: string; to: string };
+  title?: { from: string; to: string };
+  added: DOMElement[];
+  removed: DOMElement[];
+  changed: DOMElementChange[];
+}
+
+/**
+ * Compares two observations of a page. Elements are matched by id, which stays
+ * stable until the page navigates; after a navigation to another path the ids
+ * start over, so elements are matched by tag, role and name instead.
+ */
+export function diffDOM(before: PageSnapshot, after: PageSnapshot): DOMDiff {
+  const diff: DOMDiff = { added: [], removed: [], changed: [] };
+  if (before.url !== after.url) diff.url = { from: before.url, to: after.url };
+  if (before.title !== after.title) diff.title = { from: before.title, to: after.title };
+
+  const navigated = pathOf(before.url) !== pathOf(after.url);
+  const key = navigated
+    ? (el: DOMElement) => `${el.tagName}|${el.role}|${label(el)}`
+    : (el: DOMElement) => `${el.id}|${el.tagName}`;
+
+  // Several elements can share a key after a navigation, so match them in order
+  const unmatched = new Map<string, DOMElement[]>();
+  for (const el of before.dom) {
+    const list = unmatched.get(key(el)) || [];
+    list.push(el);
+    unmatched.set(key(el), list);
+  }
+
+  for (const el of after.dom) {
+    const previous = unmatched.get(key(el))?.shift();
+    if (!previous) {
+      diff.added.push(el);
+      continue;
+    }
+    const fields = COMPARED_FIELDS.filter(field => JSON.stringify(previous[field] ?? '') !== JSON.stringify(el[field] ?? ''))
+      // A name taken from the text changes along with it
+      .filter(field => field !== 'name' || previous.name !== previous.text || el.name !== el.text);
+    if (fields.length > 0) {
+      diff.changed.push({ before: previous, after: el, fields });
+    }
+  }
+  diff.removed = [...unmatched.values()].flat();
+  return diff;
+}
+
+export function isEmptyDiff(diff: DOMDiff): boolean {
+  return !diff.url && !diff.title && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+function label(el: DOMElement): string {
+  return el.name || el.text || '';
+}
+
+function pathOf(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin + parsed.pathname;
+  } catch {
+    return url;
+  }
+}
@@ -1,128 +1,416 @@
-import { Page } from 'playwright';
-import { DOMElement } from './types';
+import { CDPSession, Page } from 'playwright';
+import { BoundingBox, DOMElement, ElementStates } from './types';
 
+export const ELEMENT_ID_ATTRIBUTE = 'data-bugbot-id';
+
+/** Upper bound on extracted elements, so huge pages don't flood the agent */
+const MAX_ELEMENTS = 500;
+const MAX_TEXT_LENGTH = 200;
+const MAX_NAME_LENGTH = 100;
+
+// Roles the agent can act on. Chromium reports a few of its own roles alongside the ARIA ones.
+const CLICKABLE_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'treeitem', 'DisclosureTriangle', 'PopUpButton', 'ToggleButton'
+]);
+const FIELD_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'listbox', 'slider', 'spinbutton']);
+
+/** Non-interactive roles that always get their own entry, since they tend to carry state worth reading */
+const TEXT_ROLES = new Set([
+  'heading', 'alert', 'alertdialog', 'status', 'log', 'marquee', 'timer', 'note', 'tooltip',
+  'img', 'image', 'caption', 'cell', 'gridcell', 'columnheader', 'rowheader', 'progressbar', 'meter'
+]);
+
+// A frame's content is read from its own tree, not from the tree of the page around it
+const FRAME_ROLES = new Set(['Iframe', 'IframePresentational']);
+
+type AXTree = Awaited<ReturnType<typeof getAXTree>>;
+type AXNode = AXTree['nodes'][number];
+
+interface Candidate {
+  backendNodeId: number;
+  role: string;
+  name: string;
+  text: string;
+  description?: string;
+  value?: string;
+  states?: ElementStates;
+  interactive: boolean;
+  clickable: boolean;
+}
+
+/** Document details of an element, read in the page */
+interface ElementDetails {
+  id: number;
+  tagName: string;
+  testId: string | null;
+  placeholder: string | null;
+  selector: string;
+  xpath: string;
+  box: BoundingBox;
+  /** Offset of an iframe's content from its border box */
+  contentOffset: { x: number; y: number };
+  isPassword: boolean;
+  hasClickHandler: boolean;
+  transparent: boolean;
+}
+
+interface FrameInfo {
+  id: string;
+  /** Iframe selectors leading to this frame; empty for the top document */
+  path: string[];
+  /** Position of the frame's viewport in the page's viewport */
+  offset: { x: number; y: number };
+}
+
+function getAXTree(session: CDPSession, frameId: string) {
+  return session.send('Accessibility.getFullAXTree', { frameId });
+}
+
+/**
+ * Extracts the elements the agent can see and act on from the accessibility tree
+ * of the page and of every iframe in it: controls with their accessible name,
+ * value and states, and text regions such as headings, alerts and badges.
+ * Content of open shadow roots is included, as it is part of the tree.
+ *
+ * Elements get ids stamped on them as the `data-bugbot-id` attribute, so the
+ * same element keeps its id across extractions.
+ */
 export async function extractSimplifiedDOM(page: Page): Promise<DOMElement[]> {
-  const elements = await page.evaluate(() => {
+  const session = await page.context().newCDPSession(page);
+  try {
+    let nextId: number = await page.evaluate(() => (window as any).__bugbotNextId || 0);
+    const { frameTree } = await session.send('Page.getFrameTree');
     const result: DOMElement[] = [];
-    
-    // Get all potentially clickable elements
-    const selectors = [
-      'button',
-      'a',
-      'input[type="button"]',
-      'input[type="submit"]',
-      '[role="button"]',
-      '[onclick]',
-      '[tabindex="0"]',
-      'select',
-      'textarea',
-      'input[type="text"]',
-      'input[type="email"]',
-      'input[type="password"]',
-      'input[type="search"]',
-      '[contenteditable="true"]'
-    ];
-
-    const allElements = document.querySelectorAll(selectors.join(', '));
-    
-    allElements.forEach((el: Element) => {
-      const element = el as HTMLElement;
-      
-      // Skip hidden elements
-      const style = window.getComputedStyle(element);
-      if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
-        return;
+    // Two accessibility nodes can stand for the same element
+    const listed = new Set<number>();
+    const frames: FrameInfo[] = [{ id: frameTree.frame.id, path: [], offset: { x: 0, y: 0 } }];
+    const childFrames = new Map<string, string[]>();
+    const collectFrames = (tree: typeof frameTree) => {
+      childFrames.set(tree.frame.id, (tree.childFrames || []).map(child => child.frame.id));
+      (tree.childFrames || []).forEach(collectFrames);
+    };
+    collectFrames(frameTree);
+
+    // Frames are read parent first, so a frame's owner is described before its content
+    for (let i = 0; i < frames.length && result.length < MAX_ELEMENTS; i++) {
+      const frame = frames[i];
+      let candidates: Candidate[];
+      try {
+        candidates = collectCandidates((await getAXTree(session, frame.id)).nodes);
+      } catch {
+        // Frames in another process, or torn down since the frame tree was read
+        continue;
       }
+      candidates = candidates.slice(0, MAX_ELEMENTS - result.length);
 
-      // Get text content
-      const text = element.textContent?.trim() || element.getAttribute('aria-label') || element.getAttribute('title') || '';
-      
-      // Get role
-      const role = element.getAttribute('role') || element.tagName.toLowerCase();
-      
-      // Generate xpath (simplified)
-      const getXPath = (node: Node): string => {
-        if (node.nodeType === Node.DOCUMENT_NODE) {
-          return '/';
-        }
-        const parts: string[] = [];
-        let current: Node | null = node;
-        while (current && current.nodeType === Node.ELEMENT_NODE) {
-          const element = current as Element;
-          let index = 1;
-          let sibling = element.previousElementSibling;
-          while (sibling) {
-            if (sibling.nodeName === element.nodeName) {
-              index++;
-            }
-            sibling = sibling.previousElementSibling;
+      const described = await describeNodes(session, candidates.map(c => c.backendNodeId), { stamp: true, nextId });
+      if (!described) continue;
+      nextId = described.nextId;
+
+      candidates.forEach((candidate, idx) => {
+        const details = described.elements[idx];
+        if (!details || details.transparent || listed.has(details.id)) return;
+        listed.add(details.id);
+        result.push(toElement(candidate, details, frame));
+      });
+
+      for (const childId of childFrames.get(frame.id) || []) {
+        const owner = await session.send('DOM.getFrameOwner', { frameId: childId }).catch(() => null);
+        const ownerDetails = owner && await describeNodes(session, [owner.backendNodeId], { stamp: false, nextId });
+        const details = ownerDetails?.elements[0];
+        if (!details) continue;
+        frames.push({
+          id: childId,
+          path: [...frame.path, details.selector],
+          offset: {
+            x: frame.offset.x + details.box.x + details.contentOffset.x,
+            y: frame.offset.y + details.box.y + details.contentOffset.y
           }
-          const tagName = element.nodeName.toLowerCase();
-          parts.unshift(`${tagName}[${index}]`);
-          current = element.parentNode;
-        }
-        return '/' + parts.join('/');
-      };
-      
-      const xpath = getXPath(element);
-      
-      // Determine if clickable
-      const clickable = ['button', 'a', 'input[type="button"]', 'input[type="submit"]', '[role="button"]'].some(
-        sel => element.matches(sel)
-      ) || element.onclick !== null || element.getAttribute('tabindex') === '0';
-      
-      // Generate selector
-      let selector = '';
-      const id = element.id;
-      const className = element.className;
-      
-      if (id) {
-        selector = `#${id}`;
-      } else if (className && typeof className === 'string') {
-        const classes = className.split(' ').filter(c => c).slice(0, 2).join('.');
-        if (classes) {
-          selector = `${element.tagName.toLowerCase()}.${classes}`;
-        }
+        });
       }
-      
-      if (!selector) {
-        selector = element.tagName.toLowerCase();
-      }
-      
-      // Add text-based selector option (use Playwright-friendly format)
-      if (text && text.length < 50) {
-        // Use Playwright's text selector format
-        const textSelector = `text="${text}"`;
-        // Prefer text selector for buttons with text
-        if (clickable && text) {
-          selector = textSelector;
-        } else if (selector) {
-          selector = `${selector} or ${textSelector}`;
-        } else {
-          selector = textSelector;
+    }
+
+    await page.evaluate((id) => { (window as any).__bugbotNextId = id; }, nextId);
+    return result;
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
+/**
+ * Picks the nodes worth listing, in document order. Controls get an entry with
+ * the text inside them. Text regions get an entry with all the text inside them,
+ * so a paragraph with a bold word is one entry and a label with a badge reads
+ * e.g. "Cart 3".
+ */
+function collectCandidates(nodes: AXNode[]): Candidate[] {
+  const byId = new Map(nodes.map(node => [node.nodeId, node]));
+  const children = (node: AXNode) => (node.childIds || [])
+    .map(id => byId.get(id))
+    .filter((child): child is AXNode => !!child);
+  const roleOf = (node: AXNode) => String(node.role?.value ?? '');
+  const property = (node: AXNode, name: string) => node.properties?.find(p => p.name === name)?.value.value;
+  const isStaticText = (node: AXNode) => roleOf(node) === 'StaticText' && !node.ignored;
+  const isControl = (node: AXNode) => {
+    const role = roleOf(node);
+    return CLICKABLE_ROLES.has(role) || FIELD_ROLES.has(role)
+      || (role === 'generic' && property(node, 'focusable') === true);
+  };
+
+  // Text inside a node, leaving out nested controls (and text regions, which are listed themselves)
+  const textOf = (node: AXNode, skipTextRegions: boolean): string => children(node).map(child => {
+    const role = roleOf(child);
+    if (isStaticText(child)) return String(child.name?.value ?? '');
+    if (role === 'StaticText' || FRAME_ROLES.has(role) || (!child.ignored && isControl(child))) return '';
+    if (skipTextRegions && !child.ignored && TEXT_ROLES.has(role)) return '';
+    return textOf(child, skipTextRegions);
+  }).filter(Boolean).join(' ');
+
+  const candidates: Candidate[] = [];
+  const seen = new Set<number>();
+  const add = (node: AXNode, candidate: Omit<Candidate, 'backendNodeId' | 'role' | 'name' | 'text'>, text: string) => {
+    const backendNodeId = node.backendDOMNodeId!;
+    if (seen.has(backendNodeId)) return;
+    seen.add(backendNodeId);
+    const role = roleOf(node);
+    candidates.push({
+      backendNodeId,
+      role: !candidate.interactive && (role === 'generic' || role === 'none') ? 'text' : role,
+      name: truncate(String(node.name?.value ?? ''), MAX_NAME_LENGTH),
+      text: truncate(text.replace(/\s+/g, ' ').trim(), MAX_TEXT_LENGTH),
+      ...candidate
+    });
+  };
+
+  // `covered` means an ancestor's entry already includes plain text; `inControl` that it's a control
+  const visit = (node: AXNode, covered: boolean, inControl: boolean) => {
+    const role = roleOf(node);
+    if (FRAME_ROLES.has(role)) return;
+    const listable = !node.ignored && node.backendDOMNodeId !== undefined;
+
+    if (listable && isControl(node)) {
+      const description = String(node.description?.value ?? '');
+      const value = node.value?.value;
+      add(node, {
+        description: description || undefined,
+        value: value === undefined || value === '' ? undefined : String(value),
+        states: statesOf(node),
+        interactive: true,
+        clickable: CLICKABLE_ROLES.has(role) || role === 'generic'
+      }, textOf(node, false));
+      children(node).forEach(child => visit(child, true, true));
+      return;
+    }
+
+    if (listable && !inControl) {
+      const ownsText = !covered && children(node).some(child => isStaticText(child) && String(child.name?.value ?? '').trim());
+      if (TEXT_ROLES.has(role) || ownsText) {
+        const text = textOf(node, true);
+        if (text.trim() || node.name?.value) {
+          const description = String(node.description?.value ?? '');
+          add(node, {
+            description: description || undefined,
+            states: statesOf(node),
+            interactive: false,
+            clickable: false
+          }, text);
+          children(node).forEach(child => visit(child, true, false));
+          return;
         }
       }
-      
-      result.push({
-        text,
-        role,
-        xpath,
-        clickable,
-        selector,
-        tagName: element.tagName.toLowerCase()
-      });
+    }
+
+    children(node).forEach(child => visit(child, covered, inControl));
+  };
+
+  nodes.filter(node => !node.parentId || !byId.has(node.parentId)).forEach(root => visit(root, false, false));
+  return candidates;
+}
+
+function statesOf(node: AXNode): ElementStates | undefined {
+  const states: ElementStates = {};
+  for (const { name, value } of node.properties || []) {
+    const raw = value.value;
+    switch (name) {
+      case 'checked':
+      case 'pressed':
+        states[name] = raw === 'mixed' ? 'mixed' : raw === true || raw === 'true';
+        break;
+      case 'expanded':
+      case 'selected':
+        states[name] = raw === true || raw === 'true';
+        break;
+      case 'disabled':
+      case 'required':
+      case 'readonly':
+      case 'focused':
+        if (raw === true) states[name] = true;
+        break;
+      case 'invalid':
+        if (raw && raw !== 'false') states.invalid = true;
+        break;
+    }
+  }
+  return Object.keys(states).length > 0 ? states : undefined;
+}
+
+function toElement(candidate: Candidate, details: ElementDetails, frame: FrameInfo): DOMElement {
+  const placeholder = details.placeholder && details.placeholder !== candidate.name ? details.placeholder : undefined;
+  return {
+    id: details.id,
+    text: candidate.text,
+    role: candidate.role,
+    name: candidate.name || candidate.text.substring(0, MAX_NAME_LENGTH),
+    description: candidate.description,
+    value: details.isPassword ? undefined : candidate.value,
+    placeholder,
+    states: candidate.states,
+    testId: details.testId || undefined,
+    xpath: details.xpath,
+    interactive: candidate.interactive,
+    clickable: candidate.clickable || details.hasClickHandler,
+    selector: details.selector,
+    tagName: details.tagName,
+    frame: frame.path.length > 0 ? frame.path : undefined,
+    boundingBox: {
+      x: Math.round(details.box.x + frame.offset.x),
+      y: Math.round(details.box.y + frame.offset.y),
+      width: Math.round(details.box.width),
+      height: Math.round(details.box.height)
+    }
+  };
+}
+
+/**
+ * Reads selectors, positions and attributes of DOM nodes of one frame in a single
+ * call into the page, stamping ids on them when `stamp` is set. Returns null if
+ * the nodes can't be resolved, e.g. because the frame navigated meanwhile.
+ */
+async function describeNodes(
+  session: CDPSession,
+  backendNodeIds: number[],
+  options: { stamp: boolean; nextId: number }
+): Promise<{ elements: Array<ElementDetails | null>; nextId: number } | null> {
+  if (backendNodeIds.length === 0) {
+    return { elements: [], nextId: options.nextId };
+  }
+  const objectGroup = 'bugbot-dom';
+  try {
+    const objectIds = await Promise.all(backendNodeIds.map(backendNodeId =>
+      session.send('DOM.resolveNode', { backendNodeId, objectGroup })
+        .then(({ object }) => object.objectId)
+        .catch(() => undefined)
+    ));
+    const target = objectIds.find(Boolean);
+    if (!target) return null;
+
+    const { result, exceptionDetails } = await session.send('Runtime.callFunctionOn', {
+      functionDeclaration: inPageDescribe.toString(),
+      objectId: target,
+      arguments: [
+        { value: { idAttribute: ELEMENT_ID_ATTRIBUTE, stamp: options.stamp, nextId: options.nextId } },
+        // Unresolved nodes are passed as undefined so results stay aligned with the input
+        ...objectIds.map(objectId => objectId ? { objectId } : {})
+      ],
+      returnByValue: true
     });
-    
-    return result;
-  });
-  
-  // Deduplicate and filter
-  const seen = new Set<string>();
-  return elements.filter(el => {
-    const key = `${el.xpath}-${el.text}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return el.text.length > 0 || el.clickable;
+    if (exceptionDetails) return null;
+    return result.value;
+  } finally {
+    await session.send('Runtime.releaseObjectGroup', { objectGroup }).catch(() => {});
+  }
+}
+
+/**
+ * Runs in the page. Kept self-contained: it's serialised with `toString()`.
+ */
+function inPageDescribe(
+  options: { idAttribute: string; stamp: boolean; nextId: number },
+  ...nodes: Array<Node | undefined>
+): { elements: Array<ElementDetails | null>; nextId: number } {
+  let nextId = options.nextId;
+
+  const cssEscape = (value: string) => (window.CSS && CSS.escape) ? CSS.escape(value) : value.replace(/["\\]/g, '\\$&');
+
+  // Shortest selector that matches only this element within its document or shadow root,
+  // prefixed by the shadow host's selector; Playwright's CSS engine pierces open shadow roots
+  const getUniqueSelector = (element: Element): string => {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const hostPrefix = root instanceof ShadowRoot ? `${getUniqueSelector(root.host)} ` : '';
+    const testId = element.getAttribute('data-testid');
+    if (element.id) {
+      const byId = `#${cssEscape(element.id)}`;
+      if (root.querySelectorAll(byId).length === 1) return hostPrefix + byId;
+    }
+    if (testId) {
+      const byTestId = `[data-testid="${cssEscape(testId)}"]`;
+      if (root.querySelectorAll(byTestId).length === 1) return hostPrefix + byTestId;
+    }
+    const parts: string[] = [];
+    let current: Element | null = element;
+    while (current && current !== document.documentElement) {
+      const tag = current.tagName.toLowerCase();
+      if (current !== element && current.id) {
+        parts.unshift(`#${cssEscape(current.id)}`);
+        break;
+      }
+      const parent: Element | null = current.parentElement;
+      const siblings: Element[] = parent ? Array.from(parent.children) : current.parentNode ? Array.from((current.parentNode as ShadowRoot).children) : [];
+      const sameTag = siblings.filter(c => c.tagName === current!.tagName);
+      parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+      current = parent;
+    }
+    return hostPrefix + parts.join(' > ');
+  };
+
+  // Positional xpath within the element's document or shadow root
+  const getXPath = (element: Element): string => {
+    const parts: string[] = [];
+    let current: Element | null = element;
+    while (current) {
+      let index = 1;
+      let sibling = current.previousElementSibling;
+      while (sibling) {
+        if (sibling.nodeName === current.nodeName) index++;
+        sibling = sibling.previousElementSibling;
+      }
+      parts.unshift(`${current.nodeName.toLowerCase()}[${index}]`);
+      current = current.parentElement;
+    }
+    return '/' + parts.join('/');
+  };
+
+  const elements = nodes.map(node => {
+    // Text-only accessibility nodes can map to text nodes; describe their element
+    const element = node && (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement);
+    if (!element) return null;
+
+    let id = Number(element.getAttribute(options.idAttribute));
+    if (!id && options.stamp) {
+      id = ++nextId;
+      element.setAttribute(options.idAttribute, String(id));
+    }
+    const rect = element.getBoundingClientRect();
+    const html = element as HTMLElement;
+    return {
+      id,
+      tagName: element.tagName.toLowerCase(),
+      testId: element.getAttribute('data-testid'),
+      placeholder: element.getAttribute('placeholder'),
+      selector: getUniqueSelector(element),
+      xpath: getXPath(element),
+      box: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+      contentOffset: { x: element.clientLeft, y: element.clientTop },
+      isPassword: element instanceof HTMLInputElement && element.type === 'password',
+      hasClickHandler: typeof html.onclick === 'function',
+      transparent: window.getComputedStyle(element).opacity === '0'
+    };
   });
+
+  return { elements, nextId };
 }
 
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max) : text;
+}
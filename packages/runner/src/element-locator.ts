@@ -0,0 +1,105 @@
+import { FrameLocator, Locator, Page } from 'playwright';
+import { DOMElement } from './types';
+
+export type LocatorCandidate = (
+  | { strategy: 'role'; role: string; name: string }
+  | { strategy: 'testId'; testId: string }
+  | { strategy: 'css'; selector: string }
+  | { strategy: 'xpath'; xpath: string }
+) & {
+  /** Selectors of the iframes the element is in, outermost first */
+  frame?: string[];
+};
+
+export interface ResolvedLocator {
+  locator: Locator;
+  candidate: LocatorCandidate;
+  /** Source code of the locator, e.g. for generated Playwright specs */
+  source: string;
+}
+
+// ARIA roles `getByRole` can target; anything else (e.g. a bare tag name) is skipped
+const ARIA_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'textbox', 'searchbox', 'combobox', 'listbox',
+  'option', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'switch', 'slider',
+  'spinbutton', 'heading', 'alert', 'status', 'img', 'dialog', 'row', 'cell', 'treeitem'
+]);
+
+/**
+ * Builds the fallback chain of locators for an element, most robust first:
+ * role + accessible name, test id, CSS selector, then xpath.
+ */
+export function locatorCandidates(element: DOMElement): LocatorCandidate[] {
+  const candidates: LocatorCandidate[] = [];
+  if (element.role && ARIA_ROLES.has(element.role) && element.name) {
+    candidates.push({ strategy: 'role', role: element.role, name: element.name });
+  }
+  if (element.testId) {
+    candidates.push({ strategy: 'testId', testId: element.testId });
+  }
+  if (element.selector) {
+    candidates.push({ strategy: 'css', selector: element.selector });
+  }
+  candidates.push({ strategy: 'xpath', xpath: element.xpath });
+  return element.frame ? candidates.map(candidate => ({ ...candidate, frame: element.frame })) : candidates;
+}
+
+export function toLocator(page: Page, candidate: LocatorCandidate): Locator {
+  const root = (candidate.frame || []).reduce<Page | FrameLocator>((parent, selector) => parent.frameLocator(selector), page);
+  switch (candidate.strategy) {
+    case 'role':
+      return root.getByRole(candidate.role as any, { name: candidate.name, exact: true });
+    case 'testId':
+      return root.getByTestId(candidate.testId);
+    case 'css':
+      return root.locator(candidate.selector);
+    case 'xpath':
+      return root.locator(`xpath=${candidate.xpath}`);
+  }
+}
+
+/**
+ * Renders the source code equivalent of `toLocator`.
+ */
+export function toLocatorSource(candidate: LocatorCandidate, pageVar: string = 'page'): string {
+  const root = pageVar + (candidate.frame || []).map(selector => `.frameLocator(${JSON.stringify(selector)})`).join('');
+  switch (candidate.strategy) {
+    case 'role':
+      return `${root}.getByRole(${JSON.stringify(candidate.role)}, { name: ${JSON.stringify(candidate.name)}, exact: true })`;
+    case 'testId':
+      return `${root}.getByTestId(${JSON.stringify(candidate.testId)})`;
+    case 'css':
+      return `${root}.locator(${JSON.stringify(candidate.selector)})`;
+    case 'xpath':
+      return `${root}.locator(${JSON.stringify(`xpath=${candidate.xpath}`)})`;
+  }
+}
+
+/**
+ * Picks the first candidate that matches exactly one element on the page. If none
+ * is unique, falls back to the first candidate matching anything at all.
+ */
+export async function resolveLocator(page: Page, candidates: LocatorCandidate[]): Promise<ResolvedLocator> {
+  let fallback: LocatorCandidate | null = null;
+
+  for (const candidate of candidates) {
+    const count = await toLocator(page, candidate).count().catch(() => 0);
+    if (count === 1) {
+      return { locator: toLocator(page, candidate), candidate, source: toLocatorSource(candidate) };
+    }
+    if (count > 1 && !fallback) {
+      fallback = candidate;
+    }
+  }
+
+  if (fallback) {
+    return {
+      locator: toLocator(page, fallback).first(),
+      candidate: fallback,
+      source: `${toLocatorSource(fallback)}.first()`
+    };
+  }
+
+  const tried = candidates.map(c => c.strategy).join(', ');
+  throw new Error(`No element found on the page (tried: ${tried})`);
+}
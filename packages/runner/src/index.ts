@@ -1,4 +1,12 @@
-export { app } from './server';
+// The server (`./server`) isn't exported: loading it sets up the runner's sessions
+// and timers, which tools that only need the types and helpers below must not do.
 export { PlaywrightController } from './playwright-controller';
+export { NetworkRecorder } from './network-recorder';
+export { SessionManager, Session, SessionSummary, SESSION_HEADER } from './session-manager';
+export { BackendLogCollector, BackendLogSourceSummary, parseBackendLogSource, parseBackendLogSources } from './backend-logs';
+export * from './backend-log-sources';
+export * from './actions';
+export * from './element-locator';
+export * from './dom-diff';
 export * from './types';
 
@@ -0,0 +1,155 @@
+import { Page, Request, Response } from 'playwright';
+import { NetworkEntry, NetworkTimings } from './types';
+
+/** Response bodies larger than this are truncated */
+const MAX_BODY_SIZE = 64 * 1024;
+
+// Only API calls and documents are worth keeping bodies for; scripts, styles and media are skipped
+const BODY_RESOURCE_TYPES = new Set(['document', 'xhr', 'fetch']);
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|.*\+json|xml|.*\+xml|x-www-form-urlencoded|javascript))/;
+
+/**
+ * Records every request a page makes, correlated by Playwright's request object
+ * rather than by URL, so concurrent requests to the same URL are kept apart.
+ */
+export class NetworkRecorder {
+  private entries: NetworkEntry[] = [];
+  private byRequest = new Map<Request, NetworkEntry>();
+  private pending = new Set<Promise<void>>();
+  private nextId = 1;
+
+  attach(page: Page): void {
+    page.on('request', request => this.onRequest(request));
+    page.on('response', response => this.onResponse(response));
+    page.on('requestfinished', request => this.track(this.onFinished(request)));
+    page.on('requestfailed', request => this.onFailed(request));
+  }
+
+  getEntries(): NetworkEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * The last `limit` entries with request and response bodies cut to `maxBodySize`
+   * characters, for payloads sent on every step; `getEntries()` keeps the full bodies.
+   */
+  getRecentEntries(limit: number, maxBodySize: number): NetworkEntry[] {
+    return this.entries.slice(-limit).map(entry => {
+      const trimmed = { ...entry };
+      if (entry.postData && entry.postData.length > maxBodySize) {
+        trimmed.postData = entry.postData.substring(0, maxBodySize);
+      }
+      if (entry.responseBody && entry.responseBody.text.length > maxBodySize) {
+        trimmed.responseBody = { ...entry.responseBody, text: entry.responseBody.text.substring(0, maxBodySize), truncated: true };
+      }
+      return trimmed;
+    });
+  }
+
+  /**
+   * Waits for response bodies and sizes that are still being read.
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  private onRequest(request: Request): void {
+    const entry: NetworkEntry = {
+      id: this.nextId++,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      postData: request.postData() ?? undefined,
+      timestamp: Date.now()
+    };
+    this.entries.push(entry);
+    this.byRequest.set(request, entry);
+  }
+
+  private onResponse(response: Response): void {
+    const entry = this.byRequest.get(response.request());
+    if (!entry) return;
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.responseHeaders = response.headers();
+    entry.mimeType = entry.responseHeaders['content-type']?.split(';')[0].trim() || undefined;
+  }
+
+  private async onFinished(request: Request): Promise<void> {
+    const entry = this.byRequest.get(request);
+    if (!entry) return;
+    this.byRequest.delete(request);
+    this.recordTimings(entry, request);
+
+    try {
+      const sizes = await request.sizes();
+      entry.requestBodySize = sizes.requestBodySize;
+      entry.responseBodySize = sizes.responseBodySize;
+    } catch {
+      // Sizes aren't available for some requests, e.g. ones served from cache
+    }
+
+    const response = await request.response().catch(() => null);
+    if (response && this.shouldCaptureBody(entry)) {
+      try {
+        const body = await response.body();
+        entry.responseBody = {
+          text: body.subarray(0, MAX_BODY_SIZE).toString('utf-8'),
+          size: body.length,
+          truncated: body.length > MAX_BODY_SIZE
+        };
+      } catch {
+        // Redirects and navigated-away pages have no body to read
+      }
+    }
+  }
+
+  private onFailed(request: Request): void {
+    const entry = this.byRequest.get(request);
+    if (!entry) return;
+    this.byRequest.delete(request);
+    entry.failure = request.failure()?.errorText || 'Request failed';
+    this.recordTimings(entry, request);
+  }
+
+  private shouldCaptureBody(entry: NetworkEntry): boolean {
+    return !!entry.mimeType
+      && BODY_RESOURCE_TYPES.has(entry.resourceType || '')
+      && TEXT_MIME_TYPE.test(entry.mimeType);
+  }
+
+  /**
+   * Converts Playwright's resource timing (offsets from the request start, -1 when
+   * unknown) into HAR phases.
+   */
+  private recordTimings(entry: NetworkEntry, request: Request): void {
+    const timing = request.timing();
+    const phase = (start: number, end: number) => start >= 0 && end >= start ? Math.round(end - start) : -1;
+    const firstActivity = [timing.domainLookupStart, timing.connectStart, timing.requestStart].find(t => t >= 0);
+
+    const timings: NetworkTimings = {
+      blocked: firstActivity !== undefined ? Math.round(firstActivity) : -1,
+      dns: phase(timing.domainLookupStart, timing.domainLookupEnd),
+      connect: phase(timing.connectStart, timing.connectEnd),
+      ssl: phase(timing.secureConnectionStart, timing.connectEnd),
+      // Playwright doesn't report when the request finished sending
+      send: 0,
+      wait: phase(timing.requestStart, timing.responseStart),
+      receive: phase(timing.responseStart, timing.responseEnd)
+    };
+    entry.timings = timings;
+    if (timing.startTime > 0) {
+      entry.timestamp = Math.round(timing.startTime);
+    }
+    if (timing.responseEnd >= 0) {
+      entry.durationMs = Math.round(timing.responseEnd);
+    }
+  }
+
+  private track(work: Promise<void>): void {
+    const tracked = work.catch(() => {});
+    this.pending.add(tracked);
+    tracked.finally(() => this.pending.delete(tracked));
+  }
+}
@@ -1,25 +1,45 @@
-import { Browser, BrowserContext, Page, chromium } from 'playwright';
-import { DOMElement, NetworkEntry, BrowserState } from './types';
+import { Browser, BrowserContext, Locator, Page, chromium } from 'playwright';
+import { DOMElement, NetworkEntry, BrowserState, BackendLogEntry, ActionTarget, ActionResult, FileUpload, TargetResolution } from './types';
 import { extractSimplifiedDOM } from './dom-simplifier';
+import { takeAnnotatedScreenshot } from './screenshot-annotator';
+import { NetworkRecorder } from './network-recorder';
+import { BackendLogCollector } from './backend-logs';
+import { LocatorCandidate, ResolvedLocator, locatorCandidates, resolveLocator } from './element-locator';
+import { ActionValidationError, DEFAULT_SCROLL_AMOUNT, guessMimeType } from './actions';
 import * as fs from 'fs';
 import * as path from 'path';
-import CDP from 'chrome-remote-interface';
+
+/** Bodies in the state are cut to this many characters; the full ones are kept for the HAR */
+const STATE_BODY_SIZE = 8 * 1024;
 
 export class PlaywrightController {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
-  private networkEntries: NetworkEntry[] = [];
+  private network = new NetworkRecorder();
   private consoleErrors: string[] = [];
-  private tracingPath: string | null = null;
-  private backendLogs: string[] = [];
-  private cdpClient: any = null;
+  /** Whether a trace is being recorded; it can only be stopped once */
+  private tracing = false;
+  private elements = new Map<number, DOMElement>();
+  /** Latest DOM extraction, which annotated screenshots label their boxes from */
+  private extraction: Promise<DOMElement[]> | null = null;
+  private startedAt = 0;
+
+  /**
+   * @param backendLogs Runner-wide backend logs; the controller shows the ones logged since it started
+   */
+  constructor(private backendLogs?: BackendLogCollector) {}
 
   async initialize(headless: boolean = false): Promise<void> {
+    this.startedAt = Date.now();
     try {
       this.browser = await chromium.launch({ 
         headless,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'] // Help with some permission issues
+        args: [
+          '--no-sandbox', '--disable-setuid-sandbox', // Help with some permission issues
+          // Keep cross-origin iframes in the page's process so their accessibility tree can be read
+          '--disable-site-isolation-trials', '--disable-features=IsolateOrigins,site-per-process'
+        ]
       });
     } catch (error: any) {
       if (error.message.includes('Executable doesn\'t exist') || error.message.includes('BrowserType')) {
@@ -57,253 +77,184 @@ export class PlaywrightController {
     });
 
     // Capture network requests
-    this.page.on('request', (request) => {
-      this.networkEntries.push({
-        url: request.url(),
-        method: request.method(),
-        requestHeaders: request.headers(),
-        timestamp: Date.now()
-      });
-    });
-
-    this.page.on('response', (response) => {
-      const request = response.request();
-      const entry = this.networkEntries.find(e => e.url === request.url() && !e.status);
-      if (entry) {
-        entry.status = response.status();
-        entry.responseHeaders = response.headers();
-      }
-    });
+    this.network.attach(this.page);
 
     // Start tracing
     await this.context.tracing.start({
       screenshots: true,
       snapshots: true
     });
-
-    // Start backend error/log monitoring
-    this.monitorBackendLogs();
+    this.tracing = true;
   }
+
   /**
-   * Connects to Node.js inspector and listens for console/error events.
+   * Navigates and waits for the network to go idle, for at most `timeout` ms
+   * (Playwright's default of 30s when omitted).
    */
-  async monitorBackendLogs(): Promise<void> {
+  async navigate(url: string, timeout?: number): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+    await this.page.goto(url, { waitUntil: 'networkidle', timeout });
+  }
+
+  async getDOM(): Promise<DOMElement[]> {
+    if (!this.page) throw new Error('Browser not initialized');
+    const extraction = extractSimplifiedDOM(this.page);
+    this.extraction = extraction;
+    const dom = await extraction;
+    // Remember elements so actions can refer to them by id
+    this.elements = new Map(dom.map(el => [el.id, el]));
+    return dom;
+  }
+
+  async click(target: ActionTarget): Promise<ActionResult> {
+    return this.act('click', target, locator => locator.click(), 500);
+  }
+
+  async input(target: ActionTarget, text: string): Promise<ActionResult> {
+    return this.act('input text to', target, locator => locator.fill(text), 300);
+  }
+
+  async select(target: ActionTarget, value: string): Promise<ActionResult> {
+    // A string option matches either the option's value or its label
+    return this.act('select an option of', target, async locator => { await locator.selectOption(value); }, 300);
+  }
+
+  async hover(target: ActionTarget): Promise<ActionResult> {
+    return this.act('hover', target, locator => locator.hover(), 500);
+  }
+
+  async keypress(key: string, target?: ActionTarget): Promise<ActionResult> {
+    if (!this.page) throw new Error('Browser not initialized');
+    if (target && this.hasTarget(target)) {
+      return this.act(`press ${key} on`, target, locator => locator.press(key), 500);
+    }
     try {
-      this.cdpClient = await CDP({ port: 9229 });
-      const { Runtime } = this.cdpClient;
-      await Runtime.enable();
-      Runtime.consoleAPICalled((payload: { type: string; args: Array<{ value: any }>; }) => {
-        if (payload.type === 'error' || payload.type === 'warning' || payload.type === 'log') {
-          const logMsg = payload.args.map((a: { value: any }) => a.value).join(' ');
-          this.backendLogs.push(`[${payload.type}] ${logMsg}`);
-        }
-      });
-      Runtime.exceptionThrown((payload: { exceptionDetails: { text: string } }) => {
-        this.backendLogs.push(`[exception] ${payload.exceptionDetails.text}`);
-      });
-    } catch (err) {
-      this.backendLogs.push(`[monitor error] ${err}`);
+      await this.page.keyboard.press(key);
+    } catch (error: any) {
+      throw new Error(`Failed to press ${key}: ${error.message}`);
     }
+    await this.page.waitForTimeout(500);
+    return {};
   }
 
-  async navigate(url: string): Promise<void> {
+  async scroll(target?: ActionTarget, direction: 'up' | 'down' = 'down', amount: number = DEFAULT_SCROLL_AMOUNT): Promise<ActionResult> {
     if (!this.page) throw new Error('Browser not initialized');
-    await this.page.goto(url, { waitUntil: 'networkidle' });
+    if (target && this.hasTarget(target)) {
+      return this.act('scroll to', target, locator => locator.scrollIntoViewIfNeeded(), 500);
+    }
+    await this.page.mouse.wheel(0, direction === 'up' ? -amount : amount);
+    // Give infinite scroll and lazy loading a chance to fetch more content
+    await this.page.waitForTimeout(1000);
+    return {};
   }
 
-  async getDOM(): Promise<DOMElement[]> {
+  async check(target: ActionTarget, checked: boolean = true): Promise<ActionResult> {
+    return this.act(checked ? 'check' : 'uncheck', target, locator => locator.setChecked(checked), 300);
+  }
+
+  async drag(source: ActionTarget, to: ActionTarget): Promise<ActionResult> {
     if (!this.page) throw new Error('Browser not initialized');
-    return await extractSimplifiedDOM(this.page);
+
+    const from = await this.resolveTarget(source);
+    const drop = await this.resolveTarget(to);
+    console.error(`[Drag] ${from.source} → ${drop.source}`);
+    try {
+      await from.locator.dragTo(drop.locator);
+      await this.page.waitForTimeout(500);
+    } catch (error: any) {
+      throw new Error(`Failed to drag ${this.describeTarget(source)} to ${this.describeTarget(to)}: ${error.message}`);
+    }
+    return { ...this.actionResult(from), dropTarget: this.actionResult(drop) };
+  }
+
+  async upload(target: ActionTarget, file: FileUpload): Promise<ActionResult> {
+    return this.act('upload a file to', target, locator => locator.setInputFiles({
+      name: file.name,
+      mimeType: file.mimeType || guessMimeType(file.name),
+      buffer: Buffer.from(file.content || '')
+    }), 500);
   }
 
-  async click(selector: string): Promise<void> {
+  /**
+   * Resolves the target, runs the action on it and waits `settleMs` for the UI to update.
+   */
+  private async act(
+    verb: string,
+    target: ActionTarget,
+    run: (locator: Locator) => Promise<void>,
+    settleMs: number
+  ): Promise<TargetResolution> {
     if (!this.page) throw new Error('Browser not initialized');
-    
-    // Clean up selector - handle "or" patterns and extract text
-    let cleanSelector = selector.trim();
-    const originalSelector = selector;
-    
-    // Handle selectors like "button or text="Add to Cart"" or 'button or text="Add to Cart"'
-    if (cleanSelector.includes(' or ')) {
-      // Split by " or " and take the last part
-      const parts = cleanSelector.split(/\s+or\s+/);
-      if (parts.length >= 2) {
-        let lastPart = parts[parts.length - 1].trim();
-        console.error(`[Click] Last part before cleaning: "${lastPart}"`);
-        
-        // Remove outer quotes if present
-        lastPart = lastPart.replace(/^["']|["']$/g, '');
-        
-        // If it starts with text=, extract everything after text=" or text='
-        if (lastPart.startsWith('text=')) {
-          // Remove text= prefix
-          let textValue = lastPart.replace(/^text\s*=\s*/, '');
-          // Remove quotes around the value
-          textValue = textValue.replace(/^["']|["']$/g, '');
-          cleanSelector = textValue;
-          console.error(`[Click] Extracted from text= pattern: "${cleanSelector}"`);
-        } else {
-          // Use the last part as-is (should be the text)
-          cleanSelector = lastPart;
-          console.error(`[Click] Using last part after "or": "${cleanSelector}"`);
-        }
-      } else {
-        // Fallback: try to extract text="..." pattern directly
-        const textMatch = cleanSelector.match(/text\s*=\s*["']([^"']+)["']/);
-        if (textMatch && textMatch[1]) {
-          cleanSelector = textMatch[1];
-          console.error(`[Click] Extracted text from text= pattern: "${cleanSelector}"`);
-        } else {
-          // Try to find any quoted text
-          const quotedMatch = cleanSelector.match(/["']([^"']+)["']/);
-          if (quotedMatch && quotedMatch[1]) {
-            cleanSelector = quotedMatch[1];
-            console.error(`[Click] Extracted quoted text: "${cleanSelector}"`);
-          }
-        }
-      }
+
+    const resolved = await this.resolveTarget(target);
+    console.error(`[Action] ${verb} ${this.describeTarget(target)} → ${resolved.source}`);
+    try {
+      await run(resolved.locator);
+      await this.page.waitForTimeout(settleMs);
+    } catch (error: any) {
+      throw new Error(`Failed to ${verb} ${this.describeTarget(target)} using ${resolved.source}: ${error.message}`);
     }
-    
-    console.error(`[Click] Original selector: "${originalSelector}"`);
-    console.error(`[Click] Cleaned selector (after first pass): "${cleanSelector}"`);
-    
-    // Final safety check: if cleaned selector still contains " or " or looks like a complex selector,
-    // try to extract just the text part more aggressively
-    if (cleanSelector.includes(' or ') || cleanSelector.includes('text=') || (cleanSelector.includes('=') && !cleanSelector.startsWith('#'))) {
-      console.error(`[Click] Selector still contains problematic patterns, attempting aggressive extraction...`);
-      
-      // Try to extract text from text="..." pattern more aggressively
-      const aggressiveMatch = cleanSelector.match(/text\s*=\s*["']([^"']+)["']/);
-      if (aggressiveMatch && aggressiveMatch[1]) {
-        cleanSelector = aggressiveMatch[1];
-        console.error(`[Click] Aggressive extraction from text=: "${cleanSelector}"`);
-      } else {
-        // Try to find any quoted text that looks like button text
-        const quotedParts = cleanSelector.match(/["']([A-Za-z0-9\s]+)["']/g);
-        if (quotedParts && quotedParts.length > 0) {
-          // Take the longest quoted text (likely the button text)
-          const longest = quotedParts.reduce((a, b) => a.length > b.length ? a : b);
-          cleanSelector = longest.replace(/["']/g, '');
-          console.error(`[Click] Using longest quoted text: "${cleanSelector}"`);
-        } else {
-          // Last resort: extract text after "or" or after "="
-          const afterOr = cleanSelector.split(/\s+or\s+/).pop() || '';
-          const afterEquals = cleanSelector.split('=').pop() || '';
-          // Take whichever is longer and looks more like button text
-          const candidate1 = afterOr.replace(/^["']|["']$/g, '').trim();
-          const candidate2 = afterEquals.replace(/^["']|["']$/g, '').trim();
-          cleanSelector = candidate1.length > candidate2.length ? candidate1 : candidate2;
-          console.error(`[Click] Using text after "or" or "=": "${cleanSelector}"`);
-        }
+    return this.actionResult(resolved);
+  }
+
+  private hasTarget(target: ActionTarget): boolean {
+    return target.elementId !== undefined || target.locator !== undefined || target.selector !== undefined;
+  }
+
+  /**
+   * Turns an element id, a recorded locator or a CSS selector into a Playwright locator.
+   */
+  private async resolveTarget(target: ActionTarget): Promise<ResolvedLocator> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    let candidates: LocatorCandidate[];
+    if (target.elementId !== undefined) {
+      const element = this.elements.get(target.elementId);
+      if (!element) {
+        throw new ActionValidationError(`Unknown element id ${target.elementId}. Use an id from the latest element list.`);
       }
+      candidates = locatorCandidates(element);
+    } else if (target.locator) {
+      candidates = [target.locator];
+    } else if (target.selector) {
+      candidates = [{ strategy: 'css', selector: target.selector }];
+    } else {
+      throw new ActionValidationError('Action requires an elementId, locator or selector');
     }
-    
-    console.error(`[Click] Final cleaned selector: "${cleanSelector}"`);
-    
+
     try {
-      // Try different selector strategies in order of preference
-      
-      // 1. If it's just plain text (no special characters), use getByText
-      if (!cleanSelector.includes('[') && 
-          !cleanSelector.includes('(') && 
-          !cleanSelector.startsWith('.') && 
-          !cleanSelector.startsWith('#') && 
-          !cleanSelector.startsWith('text=') &&
-          !cleanSelector.includes('getByRole') &&
-          !cleanSelector.includes(' or ') &&
-          !cleanSelector.includes('=')) {
-        console.error(`[Click] Using getByText with: "${cleanSelector}"`);
-        await this.page.getByText(cleanSelector, { exact: false }).first().click();
-      }
-      // 2. If it starts with text=, extract and use getByText
-      else if (cleanSelector.startsWith('text=')) {
-        const text = cleanSelector.replace('text=', '').replace(/"/g, '').replace(/'/g, '').trim();
-        console.error(`[Click] Using getByText (from text=): "${text}"`);
-        await this.page.getByText(text, { exact: false }).first().click();
-      }
-      // 3. If it's quoted text, extract and use getByText
-      else if (cleanSelector.match(/^["']([^"']+)["']$/)) {
-        const text = cleanSelector.replace(/["']/g, '');
-        console.error(`[Click] Using getByText (from quotes): "${text}"`);
-        await this.page.getByText(text, { exact: false }).first().click();
-      }
-      // 4. If it contains getByRole, parse it
-      else if (cleanSelector.includes('getByRole')) {
-        const match = cleanSelector.match(/getByRole\(['"]([^'"]+)['"],\s*\{\s*name:\s*['"]([^'"]+)['"]\s*\}\)/);
-        if (match) {
-          console.error(`[Click] Using getByRole: role="${match[1]}", name="${match[2]}"`);
-          await this.page.getByRole(match[1] as any, { name: match[2] }).click();
-        } else {
-          console.error(`[Click] Using locator (getByRole fallback): "${cleanSelector}"`);
-          await this.page.locator(cleanSelector).first().click();
-        }
-      }
-      // 5. If selector still contains problematic patterns, try getByText as fallback
-      else if (cleanSelector.includes(' or ') || cleanSelector.includes('text=') || cleanSelector.includes('=')) {
-        // Last resort: try to extract any text that looks like button text
-        // First try to find quoted text
-        let textMatch = cleanSelector.match(/["']([A-Za-z0-9\s]+)["']/);
-        if (!textMatch) {
-          // Try without quotes - look for text after = or after "or"
-          textMatch = cleanSelector.match(/=\s*["']?([A-Za-z][A-Za-z0-9\s]{2,})["']?/) || 
-                     cleanSelector.match(/or\s+["']?([A-Za-z][A-Za-z0-9\s]{2,})["']?/);
-        }
-        if (textMatch && textMatch[1]) {
-          const fallbackText = textMatch[1].trim();
-          console.error(`[Click] Fallback: Using getByText with extracted text: "${fallbackText}"`);
-          await this.page.getByText(fallbackText, { exact: false }).first().click();
-        } else {
-          // Ultimate fallback: try to use getByRole with button
-          console.error(`[Click] Ultimate fallback: Trying getByRole('button') with text matching`);
-          // Extract any alphanumeric text from the selector
-          const anyText = cleanSelector.match(/([A-Za-z][A-Za-z0-9\s]{3,})/);
-          if (anyText && anyText[1]) {
-            const buttonText = anyText[1].trim();
-            console.error(`[Click] Trying getByRole('button', { name: "${buttonText}" })`);
-            await this.page.getByRole('button', { name: buttonText, exact: false }).first().click();
-          } else {
-            throw new Error(`Cannot parse selector: "${originalSelector}" (cleaned: "${cleanSelector}"). Please use a simpler selector format.`);
-          }
-        }
-      }
-      // 6. Default: use as CSS selector with locator - BUT ONLY if it's a valid CSS selector
-      else {
-        // Check if it looks like a valid CSS selector before using locator
-        if (cleanSelector.includes('=') || cleanSelector.includes(' or ')) {
-          // This shouldn't happen, but if it does, throw an error
-          throw new Error(`Invalid selector format: "${originalSelector}". Cannot use as CSS selector.`);
-        }
-        console.error(`[Click] Using locator (CSS selector): "${cleanSelector}"`);
-        await this.page.locator(cleanSelector).first().click();
-      }
-      
-      await this.page.waitForTimeout(500); // Wait for UI to update
-      console.error(`[Click] Successfully clicked: "${cleanSelector}"`);
+      return await resolveLocator(this.page, candidates);
     } catch (error: any) {
-      console.error(`[Click] Error details:`, error);
-      throw new Error(`Failed to click selector "${originalSelector}" (cleaned: "${cleanSelector}"): ${error.message}`);
+      throw new Error(`Cannot locate ${this.describeTarget(target)}: ${error.message}`);
     }
   }
 
-  async input(selector: string, text: string): Promise<void> {
-    if (!this.page) throw new Error('Browser not initialized');
-    
-    try {
-      if (selector.startsWith('text=')) {
-        const textValue = selector.replace('text=', '').replace(/"/g, '');
-        await this.page.getByText(textValue).first().fill(text);
-      } else {
-        await this.page.locator(selector).first().fill(text);
-      }
-      await this.page.waitForTimeout(300);
-    } catch (error) {
-      throw new Error(`Failed to input text to selector "${selector}": ${error}`);
+  private describeTarget(target: ActionTarget): string {
+    if (target.elementId !== undefined) {
+      const element = this.elements.get(target.elementId);
+      return `element ${target.elementId}${element?.name ? ` ("${element.name}")` : ''}`;
     }
+    return target.selector ? `selector "${target.selector}"` : `${target.locator?.strategy} locator`;
+  }
+
+  private actionResult(resolved: ResolvedLocator): TargetResolution {
+    return {
+      strategy: resolved.candidate.strategy,
+      locator: resolved.candidate,
+      resolvedSelector: resolved.source
+    };
   }
 
-  async getScreenshot(): Promise<string> {
+  /**
+   * Takes a viewport screenshot, optionally with numbered boxes around each simplified DOM element.
+   * The boxes come from the latest `getDOM()` (waiting for one in progress), so their labels match
+   * the ids the agent acts on; a fresh extraction is only made when there hasn't been one.
+   */
+  async getScreenshot(annotate: boolean = false): Promise<string> {
     if (!this.page) throw new Error('Browser not initialized');
-    const buffer = await this.page.screenshot({ fullPage: false });
+    const buffer = annotate
+      ? await takeAnnotatedScreenshot(this.page, await (this.extraction || this.getDOM()))
+      : await this.page.screenshot({ fullPage: false });
     return buffer.toString('base64');
   }
 
@@ -312,19 +263,34 @@ export class PlaywrightController {
     return {
       url: this.page.url(),
       title: await this.page.title(),
+      viewport: this.page.viewportSize() || undefined,
       consoleErrors: [...this.consoleErrors],
-      networkEntries: this.networkEntries.slice(-50), // Last 50 entries
-      backendLogs: this.backendLogs.slice(-50) // Last 50 backend logs
+      networkEntries: this.network.getRecentEntries(50, STATE_BODY_SIZE),
+      backendLogs: this.getBackendLogs(50)
     };
   }
 
-  async getNetworkEntries(): Promise<NetworkEntry[]> {
-    return this.networkEntries.slice(-100); // Last 100 entries
+  /**
+   * Returns every request of the session, or the last `limit` ones, once pending
+   * response bodies have been read.
+   */
+  async getNetworkEntries(limit?: number): Promise<NetworkEntry[]> {
+    await this.network.flush();
+    const entries = this.network.getEntries();
+    return limit ? entries.slice(-limit) : [...entries];
+  }
+
+  /**
+   * Backend log entries logged since the browser was started, or the last `limit` of them.
+   */
+  getBackendLogs(limit?: number): BackendLogEntry[] {
+    return this.backendLogs?.getEntries(this.startedAt, limit) ?? [];
   }
 
   async stopTracing(path: string): Promise<void> {
     if (!this.context) throw new Error('Browser not initialized');
-    this.tracingPath = path;
+    if (!this.tracing) throw new Error('Tracing was already stopped');
+    this.tracing = false;
     await this.context.tracing.stop({ path });
   }
 
@@ -333,12 +299,20 @@ export class PlaywrightController {
     return await this.page.video()?.path() || null;
   }
 
+  /**
+   * Closes the context and browser. A trace that was never saved with `stopTracing()`
+   * is discarded; the browser is closed even when that or closing the context fails.
+   */
   async close(): Promise<void> {
-    if (this.context && this.tracingPath) {
-      await this.context.tracing.stop({ path: this.tracingPath });
+    try {
+      if (this.context && this.tracing) {
+        this.tracing = false;
+        await this.context.tracing.stop().catch(() => {});
+      }
+      if (this.context) await this.context.close();
+    } finally {
+      if (this.browser) await this.browser.close();
     }
-    if (this.context) await this.context.close();
-    if (this.browser) await this.browser.close();
   }
 }
 
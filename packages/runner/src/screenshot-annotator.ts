@@ -0,0 +1,43 @@
+import { Page } from 'playwright';
+import { DOMElement } from './types';
+
+const OVERLAY_ID = '__bugbot-annotations';
+
+/**
+ * Takes a screenshot with a numbered box drawn around each element. Labels are the
+ * element ids, matching the ids used in the prompt.
+ */
+export async function takeAnnotatedScreenshot(page: Page, elements: DOMElement[]): Promise<Buffer> {
+  const boxes = elements
+    .map(el => ({ label: el.id, box: el.boundingBox, clickable: el.clickable }))
+    .filter(({ box }) => box && box.width > 0 && box.height > 0);
+
+  await page.evaluate(({ overlayId, boxes }) => {
+    const overlay = document.createElement('div');
+    overlay.id = overlayId;
+    overlay.style.cssText = 'position: fixed; inset: 0; pointer-events: none; z-index: 2147483647;';
+
+    for (const { label, box, clickable } of boxes) {
+      if (!box) continue;
+      const color = clickable ? '#ef4444' : '#3b82f6';
+
+      const outline = document.createElement('div');
+      outline.style.cssText = `position: absolute; left: ${box.x}px; top: ${box.y}px; width: ${box.width}px; height: ${box.height}px; border: 2px solid ${color}; box-sizing: border-box;`;
+
+      const tag = document.createElement('div');
+      tag.textContent = String(label);
+      tag.style.cssText = `position: absolute; left: -2px; top: -16px; padding: 0 3px; background: ${color}; color: white; font: bold 11px/14px monospace;`;
+
+      outline.appendChild(tag);
+      overlay.appendChild(outline);
+    }
+
+    document.body.appendChild(overlay);
+  }, { overlayId: OVERLAY_ID, boxes });
+
+  try {
+    return await page.screenshot({ fullPage: false });
+  } finally {
+    await page.evaluate((overlayId) => document.getElementById(overlayId)?.remove(), OVERLAY_ID);
+  }
+}
@@ -1,8 +1,11 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import chalk from 'chalk';
 import { PlaywrightController } from './playwright-controller';
-import { ClickAction, InputAction } from './types';
+import { ActionResult, CheckAction, ClickAction, DragAction, HoverAction, InputAction, KeypressAction, ScrollAction, SelectAction, UploadAction } from './types';
+import { ActionType, ActionValidationError, validateAction } from './actions';
+import { SESSION_HEADER, Session, SessionManager } from './session-manager';
+import { BackendLogCollector, parseBackendLogSources } from './backend-logs';
 import { spawn } from 'child_process';
 
 const app = express();
@@ -52,53 +55,69 @@ if (process.env.DEBUG_API || process.env.VERBOSE) {
   });
 }
 
-const controller = new PlaywrightController();
-let isInitialized = false;
+const backendLogs = new BackendLogCollector();
+const sessions = new SessionManager(undefined, backendLogs);
+sessions.startReaping();
 
-// Backend log monitoring (independent of Playwright)
-import CDP from 'chrome-remote-interface';
-let backendLogs: string[] = [];
-let cdpClient: any = null;
+/**
+ * Starts the backend log sources listed in `BACKEND_LOG_SOURCES`, e.g.
+ * `inspector:9229;file:/var/log/app.log`. None are started by default.
+ */
+async function startBackendLogSources(specs: string = process.env.BACKEND_LOG_SOURCES || '') {
+  for (const source of parseBackendLogSources(specs)) {
+    await backendLogs.add(source);
+    const summary = backendLogs.listSources().find(s => s.name === source.name);
+    console.error(`[Server] Backend log source ${source.name}: ${summary?.status}${summary?.lastError ? ` (${summary.lastError})` : ''}`);
+  }
+}
 
-async function monitorBackendLogs() {
-  try {
-    cdpClient = await CDP({ port: 9229 });
-    const { Runtime } = cdpClient;
-    await Runtime.enable();
-    Runtime.consoleAPICalled((payload: { type: string; args: Array<{ value: any }>; }) => {
-      if (payload.type === 'error' || payload.type === 'warning' || payload.type === 'log') {
-        const logMsg = payload.args.map((a: { value: any }) => a.value).join(' ');
-        backendLogs.push(`[${payload.type}] ${logMsg}`);
-      }
-    });
-    Runtime.exceptionThrown((payload: { exceptionDetails: { text: string } }) => {
-      backendLogs.push(`[exception] ${payload.exceptionDetails.text}`);
-    });
-  } catch (err) {
-    backendLogs.push(`[monitor error] ${err}`);
+/**
+ * Resolves the session named by the `X-Session-Id` header for routes that drive a browser.
+ */
+function requireSession(req: Request, res: Response, next: NextFunction) {
+  const sessionId = req.header(SESSION_HEADER);
+  if (!sessionId) {
+    return res.status(400).json({ error: 'Missing X-Session-Id header. Call /init first and send the sessionId it returns.' });
   }
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return res.status(404).json({ error: `Unknown session ${sessionId}. It may have been closed, or reaped after being idle.` });
+  }
+  res.locals.session = session;
+  next();
 }
 
-monitorBackendLogs();
-// Backend logs endpoint (does not require Playwright session)
+function sessionController(res: Response): PlaywrightController {
+  return (res.locals.session as Session).controller;
+}
+
+// Backend logs are shared by all sessions (independent of Playwright)
 app.get('/backend-logs', (req, res) => {
-  res.json({ backendLogs: backendLogs.slice(-50) });
+  // Sessions only see what was logged since they started
+  const session = req.header(SESSION_HEADER) ? sessions.get(req.header(SESSION_HEADER)!) : undefined;
+  const since = Number(req.query.since) || session?.createdAt || 0;
+  const limit = Number(req.query.limit) || undefined;
+  res.json({ sources: backendLogs.listSources(), backendLogs: backendLogs.getEntries(since, limit) });
 });
 
 // Health check endpoint (doesn't require browser initialization)
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', initialized: isInitialized });
+  res.json({ status: 'ok', sessions: sessions.size });
+});
+
+// List open browser sessions
+app.get('/sessions', (req, res) => {
+  res.json({ idleTimeoutMs: sessions.idleTimeoutMs, sessions: sessions.list() });
 });
 
-// Initialize browser
+// Initialize a browser in a new session
 app.post('/init', async (req, res) => {
   try {
     const { headless = false } = req.body;
     console.error(`[Server] Initializing browser (headless: ${headless})...`);
-    await controller.initialize(headless);
-    isInitialized = true;
-    console.error(`[Server] Browser initialized successfully`);
-    res.json({ success: true });
+    const session = await sessions.create(headless);
+    console.error(`[Server] Browser initialized successfully (session ${session.id})`);
+    res.json({ success: true, sessionId: session.id });
   } catch (error: any) {
     console.error(`[Server] Browser initialization failed:`, error);
     res.status(500).json({ 
@@ -109,13 +128,10 @@ app.post('/init', async (req, res) => {
 });
 
 // Navigate to URL
-app.post('/navigate', async (req, res) => {
+app.post('/navigate', requireSession, async (req, res) => {
   try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
-    const { url } = req.body;
-    await controller.navigate(url);
+    const { url, timeout } = req.body;
+    await sessionController(res).navigate(url, timeout);
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -123,84 +139,89 @@ app.post('/navigate', async (req, res) => {
 });
 
 // Get simplified DOM
-app.get('/dom', async (req, res) => {
+app.get('/dom', requireSession, async (req, res) => {
   try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
-    const dom = await controller.getDOM();
+    const dom = await sessionController(res).getDOM();
     res.json(dom);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Click action
-app.post('/action/click', async (req, res) => {
-  try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
+/**
+ * Registers `POST /action/<type>`. Invalid requests are answered with a 400 and a
+ * message meant for the agent, so it can correct the action on its next step.
+ */
+function actionRoute<T>(type: ActionType, run: (controller: PlaywrightController, body: T) => Promise<ActionResult>) {
+  app.post(`/action/${type}`, requireSession, async (req, res) => {
+    try {
+      validateAction(type, req.body || {});
+      const result = await run(sessionController(res), req.body);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      const status = error instanceof ActionValidationError ? 400 : 500;
+      console.error(`[Server] /action/${type} error:`, error.message);
+      res.status(status).json({
+        error: error.message,
+        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
     }
-    const { selector }: ClickAction = req.body;
-    console.error(`[Server] /action/click received selector: "${selector}"`);
-    await controller.click(selector);
-    res.json({ success: true });
-  } catch (error: any) {
-    console.error(`[Server] /action/click error:`, error);
-    res.status(500).json({ 
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
-    });
-  }
-});
+  });
+}
 
-// Input action
-app.post('/action/input', async (req, res) => {
-  try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
-    const { selector, text }: InputAction = req.body;
-    await controller.input(selector, text);
-    res.json({ success: true });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
-});
+actionRoute<ClickAction>('click', (controller, { elementId, locator, selector }) =>
+  controller.click({ elementId, locator, selector }));
+
+actionRoute<InputAction>('input', (controller, { elementId, locator, selector, text }) =>
+  controller.input({ elementId, locator, selector }, text));
+
+actionRoute<SelectAction>('select', (controller, { elementId, locator, selector, value }) =>
+  controller.select({ elementId, locator, selector }, value));
+
+actionRoute<HoverAction>('hover', (controller, { elementId, locator, selector }) =>
+  controller.hover({ elementId, locator, selector }));
+
+actionRoute<KeypressAction>('keypress', (controller, { elementId, locator, selector, key }) =>
+  controller.keypress(key, { elementId, locator, selector }));
 
-// Get network entries
-app.get('/network', async (req, res) => {
+actionRoute<ScrollAction>('scroll', (controller, { elementId, locator, selector, direction, amount }) =>
+  controller.scroll({ elementId, locator, selector }, direction, amount));
+
+actionRoute<CheckAction>('check', (controller, { elementId, locator, selector, checked }) =>
+  controller.check({ elementId, locator, selector }, checked));
+
+actionRoute<DragAction>('drag', (controller, { elementId, locator, selector, to }) =>
+  controller.drag({ elementId, locator, selector }, { elementId: to.elementId, locator: to.locator, selector: to.selector }));
+
+actionRoute<UploadAction>('upload', (controller, { elementId, locator, selector, file }) =>
+  controller.upload({ elementId, locator, selector }, file));
+
+// Get network entries (?limit=N returns only the last N)
+app.get('/network', requireSession, async (req, res) => {
   try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
-    const entries = await controller.getNetworkEntries();
+    const limit = req.query.limit ? parseInt(String(req.query.limit)) : undefined;
+    const entries = await sessionController(res).getNetworkEntries(limit);
     res.json(entries);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Get screenshot
-app.get('/screenshot', async (req, res) => {
+// Get screenshot (?annotate=true draws numbered boxes around DOM elements)
+app.get('/screenshot', requireSession, async (req, res) => {
   try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
-    const screenshot = await controller.getScreenshot();
-    res.json({ screenshot, format: 'base64' });
+    const annotate = req.query.annotate === 'true';
+    const screenshot = await sessionController(res).getScreenshot(annotate);
+    res.json({ screenshot, format: 'base64', annotated: annotate });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
 // Get browser state
-app.get('/state', async (req, res) => {
+app.get('/state', requireSession, async (req, res) => {
   try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
-    const state = await controller.getState();
+    const state = await sessionController(res).getState();
     res.json(state);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -208,62 +229,27 @@ app.get('/state', async (req, res) => {
 });
 
 // Stop tracing and get video path
-app.post('/stop', async (req, res) => {
+app.post('/stop', requireSession, async (req, res) => {
   try {
-    if (!isInitialized) {
-      return res.status(400).json({ error: 'Browser not initialized. Call /init first.' });
-    }
     const { tracingPath } = req.body;
-    await controller.stopTracing(tracingPath);
-    const videoPath = await controller.getVideoPath();
+    await sessionController(res).stopTracing(tracingPath);
+    const videoPath = await sessionController(res).getVideoPath();
     res.json({ success: true, videoPath });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Close browser
-app.post('/close', async (req, res) => {
+// Close the session's browser
+app.post('/close', requireSession, async (req, res) => {
   try {
-    await controller.close();
-    isInitialized = false;
+    await sessions.close((res.locals.session as Session).id);
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Linear webhook endpoint
-app.post('/linear-webhook', async (req, res) => {
-  try {
-    const bugTitle = req.body.data?.title || 'No title';
-    const bugDescription = req.body.data?.team?.description || bugTitle;
-    console.log(`[Linear Webhook] Received bug: ${bugDescription}`);
-
-    // Call BugBot orchestration function directly
-    const { runBugBot } = require('../../api/src/run-bugbot');
-    const config = {
-      runnerUrl: 'http://localhost:3001',
-      targetUrl: 'http://localhost:4200',
-      bugDescription,
-      maxSteps: 20,
-      timeout: 300 * 1000,
-      apiKey: process.env.GEMINI_API_KEY,
-      provider: 'gemini',
-      headless: false,
-      verbose: false
-    };
-    try {
-      await runBugBot(config);
-      res.json({ success: true, received: bugDescription });
-    } catch (err) {
-      res.status(500).json({ error: err.message });
-    }
-  } catch (error) {
-    res.status(500).json({ error: error.message });
-  }
-});
-
 const PORT = process.env.PORT || 3001;
 
 if (require.main === module) {
@@ -271,6 +257,19 @@ if (require.main === module) {
     console.log(`Runner server listening on port ${PORT}`);
   });
 
+  startBackendLogSources().catch(error => {
+    console.error(`[Server] Invalid BACKEND_LOG_SOURCES: ${error.message}`);
+    process.exit(1);
+  });
+
+  // Close every session's browser so no Chromium processes outlive the server
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, async () => {
+      await Promise.all([sessions.closeAll(), backendLogs.stop()]);
+      process.exit(0);
+    });
+  }
+
   server.on('error', (err: any) => {
     if (err.code === 'EADDRINUSE') {
       console.error(`Port ${PORT} is already in use. Please free the port or use a different one.`);
@@ -282,5 +281,5 @@ if (require.main === module) {
   });
 }
 
-export { app };
+export { app, sessions, backendLogs };
 
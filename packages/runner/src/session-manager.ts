@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import { PlaywrightController } from './playwright-controller';
+import { BackendLogCollector } from './backend-logs';
+
+export const SESSION_HEADER = 'x-session-id';
+
+/** Sessions unused for this long are closed, unless `SESSION_IDLE_TIMEOUT_MS` says otherwise */
+const DEFAULT_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface Session {
+  id: string;
+  controller: PlaywrightController;
+  headless: boolean;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  headless: boolean;
+  createdAt: string;
+  lastUsedAt: string;
+  idleMs: number;
+}
+
+/**
+ * Owns one browser per run, keyed by session id, so that concurrent runs
+ * don't share a page. Sessions that stay idle are closed by a periodic reaper.
+ */
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private reaper: NodeJS.Timeout | null = null;
+  readonly idleTimeoutMs: number;
+
+  private backendLogs?: BackendLogCollector;
+
+  constructor(
+    idleTimeoutMs: number = Number(process.env.SESSION_IDLE_TIMEOUT_MS) || DEFAULT_IDLE_TIMEOUT_MS,
+    backendLogs?: BackendLogCollector
+  ) {
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.backendLogs = backendLogs;
+  }
+
+  async create(headless: boolean): Promise<Session> {
+    const controller = new PlaywrightController(this.backendLogs);
+    try {
+      await controller.initialize(headless);
+    } catch (error) {
+      // The browser may have launched before the failure (opening the page, starting the trace)
+      await controller.close().catch(() => {});
+      throw error;
+    }
+
+    const now = Date.now();
+    const session: Session = { id: randomUUID(), controller, headless, createdAt: now, lastUsedAt: now };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Looks up a session and marks it as used.
+   */
+  get(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastUsedAt = Date.now();
+    }
+    return session;
+  }
+
+  async close(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    // Forget the session only once its browser is closed, so a failed close is retried by the reaper
+    await session.controller.close();
+    this.sessions.delete(id);
+    return true;
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.sessions.keys()].map(id => this.close(id).catch(() => false)));
+  }
+
+  list(): SessionSummary[] {
+    const now = Date.now();
+    return [...this.sessions.values()].map(session => ({
+      id: session.id,
+      headless: session.headless,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastUsedAt: new Date(session.lastUsedAt).toISOString(),
+      idleMs: now - session.lastUsedAt
+    }));
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Closes every session that has been idle for longer than the idle timeout.
+   * Returns the ids of the closed sessions.
+   */
+  async reapIdle(): Promise<string[]> {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    const idle = [...this.sessions.values()].filter(session => session.lastUsedAt < cutoff);
+    for (const session of idle) {
+      console.error(`[Sessions] Closing session ${session.id} after ${Math.round((Date.now() - session.lastUsedAt) / 1000)}s idle`);
+      await this.close(session.id).catch((error: any) => {
+        console.error(`[Sessions] Failed to close session ${session.id}: ${error.message}`);
+      });
+    }
+    return idle.map(session => session.id);
+  }
+
+  startReaping(intervalMs: number = Math.min(this.idleTimeoutMs, 60 * 1000)): void {
+    if (this.reaper) return;
+    this.reaper = setInterval(() => { this.reapIdle(); }, intervalMs);
+    // Don't keep the process alive just to reap sessions
+    this.reaper.unref();
+  }
+
+  stopReaping(): void {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+  }
+}
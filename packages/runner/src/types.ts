@@ -1,35 +1,202 @@
+import { LocatorCandidate } from './element-locator';
+
 export interface DOMElement {
+  /** Stable id for the element, valid until the page navigates */
+  id: number;
+  /** Visible text inside the element, leaving out nested controls */
   text: string;
+  /** Role from the accessibility tree, or `text` for a plain block of text */
   role?: string;
+  /** Accessible name: aria-label, associated label, text, title or placeholder */
+  name?: string;
+  /** Accessible description, e.g. from aria-describedby */
+  description?: string;
+  /** Current value of a text field, select, slider or spin button; never read from password fields */
+  value?: string;
+  placeholder?: string;
+  states?: ElementStates;
+  testId?: string;
   xpath: string;
+  /** Whether the agent can act on it; false for text regions such as headings, alerts and badges */
+  interactive: boolean;
   clickable: boolean;
+  /** CSS selector, unique on the page when possible; pierces open shadow roots */
   selector: string;
   tagName: string;
+  /** Selectors of the iframes the element is in, outermost first; unset in the top document */
+  frame?: string[];
+  /** Position in the viewport when the DOM was extracted */
+  boundingBox?: BoundingBox;
+}
+
+/**
+ * Accessibility states of an element. Only states that apply are set, e.g.
+ * `checked` for checkboxes (false when unchecked) but not for buttons.
+ */
+export interface ElementStates {
+  disabled?: boolean;
+  checked?: boolean | 'mixed';
+  pressed?: boolean | 'mixed';
+  expanded?: boolean;
+  selected?: boolean;
+  required?: boolean;
+  readonly?: boolean;
+  focused?: boolean;
+  invalid?: boolean;
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface NetworkEntry {
+  /** Unique within the session */
+  id: number;
   url: string;
   method: string;
+  /** Playwright resource type: document, xhr, fetch, script, image, ... */
+  resourceType?: string;
   status?: number;
+  statusText?: string;
+  /** When the request was issued, in epoch ms */
   timestamp: number;
   requestHeaders?: Record<string, string>;
   responseHeaders?: Record<string, string>;
+  postData?: string;
+  /** Response content type, without parameters */
+  mimeType?: string;
+  responseBody?: NetworkBody;
+  /** Why the request failed without a response, e.g. `net::ERR_CONNECTION_REFUSED` */
+  failure?: string;
+  timings?: NetworkTimings;
+  /** From request start to the end of the response, in ms */
+  durationMs?: number;
+  requestBodySize?: number;
+  responseBodySize?: number;
+}
+
+export interface NetworkBody {
+  text: string;
+  /** Size of the full body in bytes */
+  size: number;
+  /** Whether `text` was cut at the capture limit */
+  truncated: boolean;
+}
+
+/**
+ * HAR timing phases in ms; -1 when a phase doesn't apply (e.g. a reused connection).
+ */
+export interface NetworkTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
 }
 
 export interface BrowserState {
   url: string;
   title: string;
+  /** Size of the page's viewport in CSS pixels */
+  viewport?: { width: number; height: number };
   consoleErrors: string[];
   networkEntries: NetworkEntry[];
-  backendLogs: string[];
+  backendLogs: BackendLogEntry[];
 }
 
-export interface ClickAction {
-  selector: string;
+export type BackendLogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * A line logged by the application under test, captured by one of the runner's
+ * backend log sources.
+ */
+export interface BackendLogEntry {
+  /** When the line was received, in epoch ms */
+  timestamp: number;
+  /** Name of the source that captured it, e.g. `inspector:localhost:9229` */
+  source: string;
+  level: BackendLogLevel;
+  message: string;
 }
 
-export interface InputAction {
-  selector: string;
+/**
+ * What an action applies to: an element id from the last `/dom` response,
+ * a locator recorded by a previous run, or a raw CSS selector.
+ */
+export interface ActionTarget {
+  elementId?: number;
+  locator?: LocatorCandidate;
+  selector?: string;
+}
+
+export interface ClickAction extends ActionTarget {}
+
+export interface InputAction extends ActionTarget {
   text: string;
 }
 
+export interface SelectAction extends ActionTarget {
+  /** Label or value of the option to choose */
+  value: string;
+}
+
+export interface HoverAction extends ActionTarget {}
+
+/**
+ * Presses a key (e.g. `Enter`, `Escape`, `Control+A`) on the target element,
+ * or on whatever has focus when no target is given.
+ */
+export interface KeypressAction extends ActionTarget {
+  key: string;
+}
+
+/**
+ * Scrolls the target element into view, or the page by `amount` pixels when no target is given.
+ */
+export interface ScrollAction extends ActionTarget {
+  direction?: 'up' | 'down';
+  amount?: number;
+}
+
+export interface CheckAction extends ActionTarget {
+  /** Defaults to true; false unchecks */
+  checked?: boolean;
+}
+
+export interface DragAction extends ActionTarget {
+  /** Element to drop on */
+  to: ActionTarget;
+}
+
+export interface FileUpload {
+  name: string;
+  /** Guessed from the file name when omitted */
+  mimeType?: string;
+  /** Text content of the file; empty when omitted */
+  content?: string;
+}
+
+export interface UploadAction extends ActionTarget {
+  file: FileUpload;
+}
+
+export interface TargetResolution {
+  strategy: LocatorCandidate['strategy'];
+  locator: LocatorCandidate;
+  /** Source code of the locator that was used */
+  resolvedSelector: string;
+}
+
+/**
+ * How the runner resolved an action's target. Empty for actions without a
+ * target, such as a page scroll or a keypress on the focused element.
+ */
+export interface ActionResult extends Partial<TargetResolution> {
+  /** Resolution of a drag action's drop target */
+  dropTarget?: TargetResolution;
+}